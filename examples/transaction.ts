@@ -3,6 +3,7 @@ import { Client, Schema } from "redis-om";
 import { createClient } from "redis";
 import { validateEnv } from "../src/utils/env.validator";
 import { EntityData } from "../src/interfaces/entity.interface";
+import { TransactionManager } from "../src/core/transaction";
 
 // Define an interface for bank account entity
 interface BankAccount extends EntityData {
@@ -41,75 +42,66 @@ async function transactionExample() {
     // Repository for bank accounts
     const repository = redisOmClient.fetchRepository(accountSchema);
 
+    // Transaction manager for bank accounts
+    const manager = new TransactionManager<BankAccount>(
+      accountSchema,
+      redisOmClient,
+      "account",
+      client
+    );
+
     // Scenario: Creating bank accounts
     console.log("\n1. Creating Bank Accounts");
 
-    // Save accounts using Redis-OM repository
-    const aliceAccount = await repository.save({
+    // Save accounts through the manager so they carry a version
+    const aliceAccount = await manager.save({
       accountNumber: "ACC001",
       balance: 1000,
       owner: "Alice",
     });
 
-    const bobAccount = await repository.save({
+    const bobAccount = await manager.save({
       accountNumber: "ACC002",
       balance: 500,
       owner: "Bob",
     });
 
-    // Extract entity IDs
-    const getEntityId = (account: any) => {
-      const entityIdSymbol = Object.getOwnPropertySymbols(account).find(
-        (sym) => sym.description === "entityId"
-      );
-      return entityIdSymbol ? account[entityIdSymbol] : null;
-    };
-
-    const aliceEntityId = getEntityId(aliceAccount);
-    const bobEntityId = getEntityId(bobAccount);
+    const aliceEntityId = aliceAccount.entityId!;
+    const bobEntityId = bobAccount.entityId!;
 
-    console.log("Alice's Account:", {
-      ...aliceAccount,
-      entityId: aliceEntityId,
-    });
-    console.log("Bob's Account:", {
-      ...bobAccount,
-      entityId: bobEntityId,
-    });
+    console.log("Alice's Account:", aliceAccount);
+    console.log("Bob's Account:", bobAccount);
 
     // Scenario: Money Transfer Transaction
     console.log("\n2. Money Transfer Transaction");
 
     try {
-      // Start transaction
-      const multi = client.multi();
-
       const transferAmount = 200;
 
-      // Prepare transaction commands
-      multi.set(
-        `account:${aliceEntityId}:balance`,
-        aliceAccount.balance - transferAmount
-      );
-      multi.set(
-        `account:${bobEntityId}:balance`,
-        bobAccount.balance + transferAmount
+      // Reads happen inside the callback, so a conflicting write from
+      // another worker re-runs the whole transfer with fresh balances
+      const transfer = await manager.runInTransaction(
+        async (tx) => {
+          const alice = (await manager.fetch(aliceEntityId))!;
+          const bob = (await manager.fetch(bobEntityId))!;
+
+          if (alice.balance < transferAmount) {
+            throw new Error("Insufficient funds");
+          }
+
+          await tx.save({ ...alice, balance: alice.balance - transferAmount });
+          await tx.save({ ...bob, balance: bob.balance + transferAmount });
+        },
+        { retries: 5, backoff: 20 }
       );
-
-      // Execute transaction
-      const results = await multi.exec();
-      console.log("Transfer Transaction Results:", results);
+      console.log("Transfer Transaction Results:", transfer.results);
 
       // Fetch updated account balances
-      const updatedAliceBalance = await client.get(
-        `account:${aliceEntityId}:balance`
-      );
-      const updatedBobBalance = await client.get(
-        `account:${bobEntityId}:balance`
-      );
+      const updatedAlice = await manager.fetch(aliceEntityId);
+      const updatedBob = await manager.fetch(bobEntityId);
 
-      console.log("Alice's Updated Balance:", updatedAliceBalance);
-      console.log("Bob's Updated Balance:", updatedBobBalance);
+      console.log("Alice's Updated Balance:", updatedAlice?.balance);
+      console.log("Bob's Updated Balance:", updatedBob?.balance);
     } catch (transferError) {
       console.error("Transfer Failed.", transferError);
     }
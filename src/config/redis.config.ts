@@ -1,10 +1,32 @@
 import { ENV } from "./env.config";
+import { ErrorHandler } from "../errors";
+import {
+  CircuitBreakerOptions,
+  ClusterOptions,
+  ConnectionPoolOptions,
+  ReconnectOptions,
+  ReplicaOptions,
+  RetryPolicy,
+  SentinelOptions,
+  TlsOptions,
+} from "../interfaces/connection.interface";
 
 export interface RedisConfig {
-  url: string;
+  url?: string; // required unless sentinel or cluster is set
   username?: string;
   password?: string;
   db?: number;
+  keyPrefix?: string; // namespace prepended to every key, e.g. "billing"
+  reconnect?: ReconnectOptions;
+  commandTimeout?: number; // ms before an operation fails with REDIS_TIMEOUT_ERROR
+  retry?: RetryPolicy; // retries reads after transient errors; writes opt in
+  circuitBreaker?: CircuitBreakerOptions; // fail fast while Redis is down
+  errorHandler?: ErrorHandler; // builds the errors the client and managers throw
+  pool?: ConnectionPoolOptions;
+  tls?: TlsOptions; // implied by a rediss:// URL
+  sentinel?: SentinelOptions; // the master address comes from the sentinels
+  cluster?: ClusterOptions; // pool and db do not apply in cluster mode
+  replicas?: ReplicaOptions; // read-only endpoints for fetches
 }
 
 export const defaultRedisConfig: RedisConfig = {
@@ -0,0 +1,202 @@
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from "../interfaces/connection.interface";
+import { ErrorClassifier, ErrorCode, ErrorRegistry } from "../errors";
+
+export const defaultCircuitBreakerOptions: Required<
+  Omit<CircuitBreakerOptions, "failureRateThreshold">
+> = {
+  failureThreshold: 5,
+  windowSize: 20,
+  minimumCalls: 10,
+  resetTimeout: 10000,
+};
+
+/**
+ * Fails calls fast while Redis is unreachable.
+ *
+ * Closed, calls pass through and their outcomes are counted; only errors
+ * flagged retryable (connection loss, timeouts, a loading or busy server)
+ * count as failures. Too many consecutive failures, or too high a failure
+ * rate, open the circuit: calls then fail with CIRCUIT_OPEN. After
+ * `resetTimeout` the circuit turns half-open and runs the probe; success
+ * closes it, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures: number = 0;
+  private outcomes: boolean[] = []; // true for a failure, oldest first
+  private openedAt: number = 0;
+  private resetTimer?: NodeJS.Timeout;
+  private readonly options: Required<
+    Omit<CircuitBreakerOptions, "failureRateThreshold">
+  > &
+    Pick<CircuitBreakerOptions, "failureRateThreshold">;
+
+  /**
+   * Constructor for CircuitBreaker
+   * @param options - Thresholds and reset timeout
+   * @param probe - Checks whether Redis answers again, e.g. with a PING
+   * @param onStateChange - Called on every state transition
+   */
+  constructor(
+    options: CircuitBreakerOptions,
+    private readonly probe: () => Promise<boolean>,
+    private readonly onStateChange?: (event: CircuitStateChange) => void
+  ) {
+    this.options = { ...defaultCircuitBreakerOptions, ...options };
+  }
+
+  /**
+   * Check circuit breaker settings, throwing INVALID_CONFIG when one is out
+   * of range
+   * @param options - The settings to check
+   */
+  static validate(options: CircuitBreakerOptions): void {
+    const {
+      failureThreshold,
+      failureRateThreshold,
+      windowSize,
+      minimumCalls,
+      resetTimeout,
+    } = options;
+    const positiveInteger = (value?: number) =>
+      value === undefined || (Number.isInteger(value) && value >= 1);
+
+    const valid =
+      [failureThreshold, windowSize, minimumCalls].every(positiveInteger) &&
+      (failureRateThreshold === undefined ||
+        (failureRateThreshold > 0 && failureRateThreshold <= 1)) &&
+      (resetTimeout === undefined ||
+        (resetTimeout >= 0 && resetTimeout < Infinity));
+
+    if (!valid) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message:
+          "circuitBreaker needs positive integer counts, a failureRateThreshold in (0, 1] and a non-negative resetTimeout",
+        circuitBreaker: options,
+      });
+    }
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Run a call through the breaker
+   * @param operation - Operation name reported when failing fast
+   * @param run - The call
+   * @throws CIRCUIT_OPEN while the circuit is open or half-open
+   */
+  async execute<R>(operation: string, run: () => Promise<R>): Promise<R> {
+    if (this.state !== "closed") {
+      throw ErrorRegistry.createError(ErrorCode.CIRCUIT_OPEN, {
+        operation,
+        state: this.state,
+        retryIn: Math.max(
+          0,
+          this.openedAt + this.options.resetTimeout - Date.now()
+        ),
+      });
+    }
+
+    try {
+      const result = await run();
+      this.record(false);
+      return result;
+    } catch (err: unknown) {
+      this.record(ErrorClassifier.isRetryable(err));
+      throw err;
+    }
+  }
+
+  /**
+   * Close the circuit and forget past outcomes, e.g. after a disconnect
+   */
+  reset(): void {
+    clearTimeout(this.resetTimer);
+    this.resetTimer = undefined;
+    this.consecutiveFailures = 0;
+    this.outcomes = [];
+    if (this.state !== "closed") {
+      this.transition("closed", "Reset");
+    }
+  }
+
+  private record(failed: boolean): void {
+    // Calls that were in flight when the circuit opened are ignored
+    if (this.state !== "closed") {
+      return;
+    }
+
+    this.consecutiveFailures = failed ? this.consecutiveFailures + 1 : 0;
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    const { failureThreshold, failureRateThreshold, minimumCalls } =
+      this.options;
+    if (this.consecutiveFailures >= failureThreshold) {
+      this.open(`${this.consecutiveFailures} consecutive failures`);
+      return;
+    }
+
+    const failures = this.outcomes.filter(Boolean).length;
+    const rate = failures / this.outcomes.length;
+    if (
+      failureRateThreshold !== undefined &&
+      this.outcomes.length >= minimumCalls &&
+      rate >= failureRateThreshold
+    ) {
+      this.open(
+        `Failure rate ${Math.round(rate * 100)}% over the last ${
+          this.outcomes.length
+        } calls`
+      );
+    }
+  }
+
+  private open(reason: string): void {
+    this.openedAt = Date.now();
+    this.transition("open", reason);
+
+    this.resetTimer = setTimeout(
+      () => this.runProbe(),
+      this.options.resetTimeout
+    );
+    // The breaker must not keep the process alive on its own
+    this.resetTimer.unref();
+  }
+
+  private async runProbe(): Promise<void> {
+    this.resetTimer = undefined;
+    this.transition("halfOpen", "Probing with PING");
+
+    const healthy = await this.probe().catch(() => false);
+    // A reset during the probe wins
+    if (this.state !== "halfOpen") {
+      return;
+    }
+
+    if (healthy) {
+      this.consecutiveFailures = 0;
+      this.outcomes = [];
+      this.transition("closed", "Probe succeeded");
+    } else {
+      this.open("Probe failed");
+    }
+  }
+
+  private transition(to: CircuitState, reason: string): void {
+    const from = this.state;
+    this.state = to;
+    this.onStateChange?.({ from, to, reason });
+  }
+}
@@ -77,66 +77,481 @@
 
 import { Client, Schema } from "redis-om";
 import { createClient } from "redis";
+import { ConnectionOptions } from "tls";
 import { RedisConfig, defaultRedisConfig } from "../config/redis.config";
 import { TransactionManager } from "./transaction";
+import { DefaultKeyStrategy } from "./key.strategy";
 import { EntityData } from "../interfaces/entity.interface";
+import { ScopedTransactionManagerOptions } from "../interfaces/transaction.interface";
+import {
+  CircuitState,
+  NodeAddress,
+  OperationOptions,
+  ReconnectingEvent,
+  RedisClientEvents,
+  RetryStats,
+} from "../interfaces/connection.interface";
+import { TypedEventEmitter } from "../utils/typed.emitter";
+import { createReconnectStrategy } from "../utils/reconnect.strategy";
+import { resolveTlsOptions } from "../utils/tls.options";
+import { withTimeout } from "../utils/timeout";
+import { validateRetryPolicy } from "../utils/retry";
+import { OperationRunner } from "../utils/operation.runner";
 import { ConsoleLogger, LogLevel } from "../logger";
-import { ErrorRegistry, ErrorCode } from "../errors";
+import {
+  BaseError,
+  ErrorCode,
+  ErrorHandler,
+  ErrorRegistry,
+  RedisErrorHandler,
+} from "../errors";
 import { PersistenceManager } from "./persistence";
+import { ConnectionProvider } from "./connection.provider";
+import { ClusterConnectionProvider } from "./cluster.provider";
+import { SentinelMonitor } from "./sentinel.monitor";
+import {
+  CircuitBreaker,
+  defaultCircuitBreakerOptions,
+} from "./circuit.breaker";
 
 // Type for native Redis client with required methods
 type ExtendedRedisClient = ReturnType<typeof createClient>;
 
-export class EnhancedRedisClient {
+export class EnhancedRedisClient extends TypedEventEmitter<RedisClientEvents> {
   private client: Client;
-  private nativeClient!: ExtendedRedisClient;
+  private connections: ConnectionProvider;
+  private sentinel?: SentinelMonitor;
+  private circuitBreaker?: CircuitBreaker;
+  private master?: NodeAddress;
+  private masterSwitch: Promise<void> = Promise.resolve();
   private persistence: PersistenceManager;
-  private transactionManager: TransactionManager<EntityData> | null = null;
+  private transactionManagers = new Map<
+    string,
+    TransactionManager<EntityData>
+  >();
+  private createdManagers: TransactionManager<any>[] = [];
   private schema: Schema;
   private config: RedisConfig;
   private logger: ConsoleLogger;
+  private operations: OperationRunner;
+  private errorHandler: ErrorHandler;
   private isConnected: boolean = false;
+  private lastReconnect: ReconnectingEvent = {
+    attempt: 0,
+    delay: 0,
+    cause: new Error("Connection lost"),
+  };
 
   constructor(config: RedisConfig = defaultRedisConfig) {
+    super();
     this.validateConfig(config);
 
     this.config = config;
     this.client = new Client();
     this.logger = new ConsoleLogger(LogLevel.INFO);
+    this.errorHandler = config.errorHandler ?? new RedisErrorHandler();
 
     this.schema = new Schema("base", {
       version: { type: "number" },
       lastUpdated: { type: "date" },
     });
 
-    this.persistence = new PersistenceManager(this.client);
-    this.initializeNativeClient();
+    if (config.sentinel) {
+      // Connections point nowhere until connect() has found the master
+      this.sentinel = new SentinelMonitor({
+        ...config.sentinel,
+        tls: config.sentinel.tls ?? this.createTlsOptions(),
+      });
+    }
+
+    this.connections = this.createConnectionProvider();
+    this.operations = new OperationRunner(
+      this.connections,
+      { commandTimeout: config.commandTimeout, retry: config.retry },
+      this.logger,
+      "EnhancedRedisClient"
+    );
+    if (config.replicas) {
+      const { readPolicy = "replicaPreferred", latencyProbeInterval } =
+        config.replicas;
+      this.connections.useReplicas(
+        this.createReplicaClients(),
+        readPolicy,
+        latencyProbeInterval
+      );
+    }
+    if (config.circuitBreaker) {
+      this.circuitBreaker = this.createCircuitBreaker();
+      this.connections.useCircuitBreaker(this.circuitBreaker);
+    }
+    this.attachConnectionEvents();
+    this.persistence = new PersistenceManager(
+      this.client,
+      this.connections,
+      undefined,
+      {
+        commandTimeout: config.commandTimeout,
+        retry: config.retry,
+        errorHandler: config.errorHandler,
+      }
+    );
+  }
+
+  /**
+   * Create the circuit breaker, which probes with a bounded PING and
+   * reports its state changes as `circuit` events
+   */
+  private createCircuitBreaker(): CircuitBreaker {
+    const options = this.config.circuitBreaker!;
+    const probeTimeout =
+      this.config.commandTimeout ||
+      (options.resetTimeout ?? defaultCircuitBreakerOptions.resetTimeout);
+
+    return new CircuitBreaker(
+      options,
+      () =>
+        withTimeout("ping", { timeout: probeTimeout }, () =>
+          this.pingMasters()
+        ),
+      (event) => {
+        this.logger.warn(
+          "Circuit breaker state changed",
+          "EnhancedRedisClient",
+          {
+            ...event,
+          }
+        );
+        this.emit("circuit", event);
+      }
+    );
+  }
+
+  /**
+   * Create the pooled connections, to the configured URL, to a master
+   * found through the sentinels, or to the nodes of a cluster
+   * @param master - The master address in sentinel mode
+   */
+  private createConnectionProvider(master?: NodeAddress): ConnectionProvider {
+    const { url, cluster } = this.config;
+
+    if (cluster) {
+      // The cluster client keeps one connection per node and routes by slot
+      return ClusterConnectionProvider.create({
+        rootNodes: cluster.nodes.map((node) => ({ socket: node })),
+        defaults: {
+          username: this.config.username,
+          password: this.config.password,
+          socket: this.createSocketOptions(),
+        },
+        maxCommandRedirections: cluster.maxRedirections,
+      });
+    }
+
+    return ConnectionProvider.create(
+      {
+        url: this.sentinel ? undefined : url,
+        username: this.config.username,
+        password: this.config.password,
+        database: this.config.db,
+        socket: { ...master, ...this.createSocketOptions() },
+      },
+      this.config.pool
+    );
+  }
+
+  /**
+   * Create one connection per replica endpoint, with the same auth and TLS
+   * settings as the primary
+   */
+  private createReplicaClients(): ExtendedRedisClient[] {
+    return this.config.replicas!.endpoints.map((endpoint) => {
+      const replica = createClient({
+        username: this.config.username,
+        password: this.config.password,
+        database: this.config.db,
+        socket: {
+          ...endpoint,
+          ...this.createSocketOptions(),
+          // Replica retries are not reported as client reconnects
+          reconnectStrategy: createReconnectStrategy(this.config.reconnect),
+        },
+      });
+
+      // A lost replica only drops out of the read rotation until it is back
+      replica.on("error", (err: Error) => {
+        this.logger.warn("Redis replica error", "EnhancedRedisClient", {
+          replica: endpoint,
+          error: this.formatError(err),
+        });
+      });
+      return replica;
+    });
+  }
+
+  /**
+   * Socket settings shared by every connection: TLS and reconnect backoff
+   */
+  private createSocketOptions() {
+    const tls = this.createTlsOptions();
+
+    return {
+      ...(tls && { tls: true as const, ...tls }),
+      reconnectStrategy: createReconnectStrategy(
+        this.config.reconnect,
+        (attempt, delay, cause) => {
+          this.lastReconnect = { attempt, delay, cause };
+        }
+      ),
+    };
+  }
+
+  /**
+   * Resolve the TLS settings shared by the data nodes and the sentinels
+   * @returns Node TLS options, or undefined when TLS is off
+   */
+  private createTlsOptions(): ConnectionOptions | undefined {
+    const { url, tls } = this.config;
+    const useTls = tls !== undefined || !!url?.startsWith("rediss://");
+    return useTls ? resolveTlsOptions(tls ?? {}) : undefined;
+  }
+
+  /**
+   * Track the real connection state of the native client and re-emit its
+   * lifecycle events
+   */
+  private attachConnectionEvents(): void {
+    const primary = this.connections.getPrimaryClient();
+    // Connections replaced after a failover no longer speak for the client
+    const isCurrent = () => primary === this.connections.getPrimaryClient();
+
+    primary.on("connect", () => {
+      if (isCurrent()) {
+        this.emit("connect");
+      }
+    });
+
+    primary.on("ready", () => {
+      if (!isCurrent()) {
+        return;
+      }
+      this.isConnected = true;
+      this.emit("ready");
+    });
+
+    primary.on("reconnecting", () => {
+      if (!isCurrent()) {
+        return;
+      }
+      this.isConnected = false;
+      this.logger.warn("Reconnecting to Redis", "EnhancedRedisClient", {
+        attempt: this.lastReconnect.attempt,
+        delay: this.lastReconnect.delay,
+      });
+      this.emit("reconnecting", { ...this.lastReconnect });
+
+      // The master may be gone for good; ask the sentinels where it went
+      if (this.sentinel) {
+        this.rediscoverMaster();
+      }
+    });
+
+    primary.on("error", (err: Error) => {
+      this.logger.error("Redis connection error", "EnhancedRedisClient", {
+        error: this.formatError(err),
+      });
+
+      // Without listeners an "error" event would crash the process
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", err);
+      }
+
+      // The reconnect strategy gave up; the socket will not come back
+      if (isCurrent() && !primary.isOpen && this.isConnected) {
+        this.isConnected = false;
+        this.emit("end");
+      }
+    });
+
+    primary.on("end", () => {
+      if (!isCurrent()) {
+        return;
+      }
+      this.isConnected = false;
+      this.emit("end");
+    });
   }
 
-  private initializeNativeClient(): void {
-    this.nativeClient = createClient({
-      url: this.config.url,
-      username: this.config.username,
-      password: this.config.password,
-      database: this.config.db,
+  /**
+   * Point every shared connection at a new master; managers holding the
+   * connection provider follow without being rebuilt
+   * @param current - The master address reported by the sentinels
+   */
+  private async switchMaster(current: NodeAddress): Promise<void> {
+    const previous = this.master;
+    if (previous?.host === current.host && previous?.port === current.port) {
+      return;
+    }
+
+    this.logger.info("Switching to Redis master", "EnhancedRedisClient", {
+      previous,
+      current,
     });
+
+    await this.connections.replace(this.createConnectionProvider(current));
+    this.master = current;
+    this.attachConnectionEvents();
+
+    if (!previous) {
+      return;
+    }
+
+    // Redis-OM would QUIT the old master on rebind, which may never answer
+    this.client = new Client();
+    await this.client.use(this.connections.getPrimaryClient());
+    this.isConnected = true;
+
+    this.emit("failover", {
+      masterName: this.config.sentinel!.masterName,
+      previous,
+      current,
+    });
+  }
+
+  /**
+   * Serialize master switches so overlapping announcements apply in order
+   * @param master - The new master address
+   */
+  private queueMasterSwitch(master: NodeAddress): Promise<void> {
+    this.masterSwitch = this.masterSwitch
+      .then(() => this.switchMaster(master))
+      .catch((err: unknown) => {
+        this.logger.error("Failed to switch master", "EnhancedRedisClient", {
+          error: this.formatError(err),
+          master,
+        });
+        if (this.listenerCount("error") > 0) {
+          this.emit(
+            "error",
+            err instanceof Error ? err : new Error(String(err))
+          );
+        }
+      });
+    return this.masterSwitch;
+  }
+
+  /**
+   * Look the master up again, for failovers whose announcement was missed
+   */
+  private rediscoverMaster(): void {
+    this.sentinel!.discoverMaster().then(
+      (master) => this.queueMasterSwitch(master),
+      (err: unknown) =>
+        this.logger.warn("Master rediscovery failed", "EnhancedRedisClient", {
+          error: this.formatError(err),
+        })
+    );
   }
 
   private validateConfig(config: RedisConfig): void {
+    if (config.keyPrefix !== undefined && !config.keyPrefix) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "keyPrefix must not be empty",
+      });
+    }
+
+    const { commandTimeout } = config;
+    if (
+      commandTimeout !== undefined &&
+      !(commandTimeout >= 0 && commandTimeout < Infinity)
+    ) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "commandTimeout must be a non-negative number of milliseconds",
+        commandTimeout,
+      });
+    }
+    if (config.retry) {
+      validateRetryPolicy(config.retry);
+    }
+    if (config.circuitBreaker) {
+      CircuitBreaker.validate(config.circuitBreaker);
+    }
+
+    if (config.sentinel && config.cluster) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Sentinel and cluster mode cannot be combined",
+      });
+    }
+
+    if (config.replicas) {
+      const { endpoints, readPolicy } = config.replicas;
+      if (config.cluster) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "Replica endpoints are not supported in cluster mode",
+        });
+      }
+      if (!endpoints?.length) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "At least one replica endpoint is required",
+        });
+      }
+      if (
+        readPolicy !== undefined &&
+        !["primary", "replicaPreferred", "nearest"].includes(readPolicy)
+      ) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "Invalid read policy",
+          readPolicy,
+        });
+      }
+    }
+
+    if (config.cluster) {
+      if (!config.cluster.nodes?.length) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "Cluster mode needs at least one seed node",
+        });
+      }
+      if (config.db) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "Redis Cluster only supports database 0",
+          db: config.db,
+        });
+      }
+      return;
+    }
+
+    if (config.sentinel) {
+      const { sentinels, masterName } = config.sentinel;
+      if (!sentinels?.length || !masterName) {
+        throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+          message: "Sentinel mode needs at least one sentinel and a masterName",
+        });
+      }
+      return;
+    }
+
     if (!config.url) {
       throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
         message: "Redis URL is required",
       });
     }
 
+    let protocol: string;
     try {
-      new URL(config.url);
+      protocol = new URL(config.url).protocol;
     } catch (err) {
       throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
         message: "Invalid Redis URL format",
         url: config.url,
       });
     }
+
+    if (protocol !== "redis:" && protocol !== "rediss:") {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Redis URL must use the redis:// or rediss:// scheme",
+        url: config.url,
+      });
+    }
   }
 
   private formatError(error: unknown): Record<string, any> {
@@ -156,36 +571,18 @@ export class EnhancedRedisClient {
         url: this.config.url,
       });
 
-      const { url, password, username, db } = this.config;
-      let connectionUrl = url.startsWith("redis://") ? url : `redis://${url}`;
-
-      if (password) {
-        const userInfo = username ? `${username}:${password}` : password;
-        connectionUrl = connectionUrl.replace(
-          "redis://",
-          `redis://${userInfo}@`
-        );
-      }
-
-      if (db !== undefined) {
-        connectionUrl = `${connectionUrl}/${db}`;
+      if (this.sentinel) {
+        await this.switchMaster(await this.sentinel.discoverMaster());
+        await this.sentinel.watch((master) => this.queueMasterSwitch(master));
       }
+      // Opens the replicas and starts the latency probe in sentinel mode too
+      await this.connections.connect();
 
-      // Connect both clients
-      await Promise.all([
-        this.client.open(connectionUrl),
-        this.nativeClient.connect(),
-      ]);
+      // Redis-OM runs on the primary connection instead of opening its own
+      await this.client.use(this.connections.getPrimaryClient());
 
       this.isConnected = true;
 
-      // Create transaction manager after connection
-      this.transactionManager = new TransactionManager<EntityData>(
-        this.schema,
-        this.client,
-        "base"
-      );
-
       this.logger.info(
         "Successfully connected to Redis",
         "EnhancedRedisClient"
@@ -196,9 +593,13 @@ export class EnhancedRedisClient {
         config: { ...this.config, password: "***" },
       });
 
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          error: this.formatError(err),
+        },
+        ErrorCode.REDIS_CONNECTION_ERROR
+      );
     }
   }
 
@@ -206,16 +607,22 @@ export class EnhancedRedisClient {
     try {
       this.logger.debug("Disconnecting from Redis", "EnhancedRedisClient");
 
+      await this.sentinel?.stop();
+
       // Disconnect persistence manager
       await this.persistence.disconnect();
 
-      // Disconnect transaction manager if exists
-      if (this.transactionManager) {
-        await this.transactionManager.disconnect();
+      // Disconnect every transaction manager handed out
+      for (const manager of this.createdManagers) {
+        await manager.disconnect();
       }
+      this.createdManagers = [];
+      this.transactionManagers.clear();
 
-      // Close both client connections
-      await Promise.all([this.client.close(), this.nativeClient.quit()]);
+      // Redis-OM quits the primary connection; the provider closes the rest
+      await this.client.close();
+      await this.connections.disconnect();
+      this.circuitBreaker?.reset();
 
       this.isConnected = false;
 
@@ -232,10 +639,14 @@ export class EnhancedRedisClient {
         }
       );
 
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        operation: "disconnect",
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation: "disconnect",
+          error: this.formatError(err),
+        },
+        ErrorCode.REDIS_CONNECTION_ERROR
+      );
     }
   }
 
@@ -248,6 +659,25 @@ export class EnhancedRedisClient {
     return this.client;
   }
 
+  /**
+   * Get the provider owning the native connections, e.g. to build managers
+   * that share them
+   */
+  getConnectionProvider(): ConnectionProvider {
+    this.ensureConnected();
+    return this.connections;
+  }
+
+  /**
+   * Run a callback as a read-your-writes session: after its first write
+   * through any manager of this client, its reads stay on the primary
+   * @param callback - The work to run in the session
+   */
+  runInSession<R>(callback: () => Promise<R>): Promise<R> {
+    this.ensureConnected();
+    return this.connections.runInSession(callback);
+  }
+
   getPersistenceManager(): PersistenceManager {
     if (!this.isConnected) {
       throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
@@ -257,23 +687,91 @@ export class EnhancedRedisClient {
     return this.persistence;
   }
 
-  getTransactionManager(): TransactionManager<EntityData> {
-    if (!this.isConnected || !this.transactionManager) {
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        message: "Client not connected. Call connect() first.",
+  /**
+   * Get the transaction manager for the base schema
+   * @param tenant - Optional tenant; keys are scoped to `<keyPrefix>:<tenant>`
+   * @returns A manager shared by all callers for the same tenant
+   */
+  getTransactionManager(tenant?: string): TransactionManager<EntityData> {
+    this.ensureConnected();
+
+    const cacheKey = tenant ?? "";
+    let manager = this.transactionManagers.get(cacheKey);
+    if (!manager) {
+      manager = this.createTransactionManager<EntityData>(this.schema, {
+        tenant,
       });
+      this.transactionManagers.set(cacheKey, manager);
     }
-    return this.transactionManager;
+    return manager;
   }
 
-  async ping(): Promise<boolean> {
+  /**
+   * Create a transaction manager for a schema, with keys scoped to the
+   * configured key prefix and optional tenant
+   * @param schema - The Redis-OM schema; its name becomes part of every key
+   * @param options - Tenant and manager options such as version history
+   */
+  createTransactionManager<T extends EntityData>(
+    schema: Schema,
+    options: ScopedTransactionManagerOptions = {}
+  ): TransactionManager<T> {
+    this.ensureConnected();
+
+    const { tenant, ...managerOptions } = options;
+    const keyStrategy = new DefaultKeyStrategy(
+      DefaultKeyStrategy.joinPrefix(
+        this.getNamespace(tenant),
+        schema.schemaName
+      ),
+      { hashTags: this.connections.isCluster() }
+    );
+
+    const manager = new TransactionManager<T>(
+      schema,
+      this.client,
+      schema.schemaName,
+      this.connections,
+      {
+        commandTimeout: this.config.commandTimeout,
+        retry: this.config.retry,
+        errorHandler: this.config.errorHandler,
+        ...managerOptions,
+        keyStrategy,
+      }
+    );
+    this.createdManagers.push(manager);
+    return manager;
+  }
+
+  /**
+   * Get the key namespace of this client or one of its tenants
+   * @param tenant - Optional tenant ID
+   * @returns The prefix shared by all keys in the namespace, empty if none
+   */
+  getNamespace(tenant?: string): string {
+    if (tenant !== undefined && (!tenant || tenant.includes(":"))) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Tenant must be a non-empty string without ':'",
+        tenant,
+      });
+    }
+    return DefaultKeyStrategy.joinPrefix(this.config.keyPrefix, tenant);
+  }
+
+  /**
+   * Check that Redis answers; a timeout counts as no answer
+   * @param options - Timeout or AbortSignal for this call
+   */
+  async ping(options: OperationOptions = {}): Promise<boolean> {
     try {
       if (!this.isConnected) {
         return false;
       }
 
-      const response = await this.nativeClient.ping();
-      return response === "PONG";
+      return await this.operations.read("ping", options, () =>
+        this.pingMasters()
+      );
     } catch (err: unknown) {
       this.logger.error("Failed to ping Redis", "EnhancedRedisClient", {
         error: this.formatError(err),
@@ -282,62 +780,201 @@ export class EnhancedRedisClient {
     }
   }
 
-  async getServerInfo(): Promise<Record<string, any>> {
-    try {
-      if (!this.isConnected) {
-        throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-          message: "Client not connected. Call connect() first.",
+  private async pingMasters(): Promise<boolean> {
+    // In cluster mode every master has to answer
+    const masters = await this.connections.getMasters();
+    const responses = await Promise.all(
+      masters.map(({ client }) => client.ping())
+    );
+    return responses.every((response) => response === "PONG");
+  }
+
+  /**
+   * Get the state of the circuit breaker
+   * @returns The state, or undefined when no breaker is configured
+   */
+  getCircuitState(): CircuitState | undefined {
+    return this.circuitBreaker?.getState();
+  }
+
+  /**
+   * Read INFO from Redis, parsed into sections
+   * @param options - Timeout or AbortSignal for this call
+   */
+  async getServerInfo(
+    options: OperationOptions = {}
+  ): Promise<Record<string, any>> {
+    return this.operations.read("getServerInfo", options, async () => {
+      try {
+        this.ensureConnected();
+
+        const [{ client }] = await this.connections.getMasters();
+        const info = await client.info();
+        const sections: Record<string, any> = {};
+
+        let currentSection = "";
+        info.split("\n").forEach((line: string) => {
+          if (line.startsWith("#")) {
+            currentSection = line.substring(2).toLowerCase();
+            sections[currentSection] = {};
+          } else if (line.includes(":")) {
+            const [key, value] = line.split(":");
+            if (currentSection && key) {
+              sections[currentSection][key.trim()] = value.trim();
+            }
+          }
         });
+
+        return sections;
+      } catch (err: unknown) {
+        this.logger.error("Failed to get server info", "EnhancedRedisClient", {
+          error: this.formatError(err),
+        });
+
+        if (err instanceof BaseError) {
+          throw err; // e.g. not connected, which must not be retried
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "getServerInfo",
+            error: this.formatError(err),
+          },
+          ErrorCode.REDIS_OPERATION_ERROR
+        );
       }
+    });
+  }
 
-      const info = await this.nativeClient.info();
-      const sections: Record<string, any> = {};
-
-      let currentSection = "";
-      info.split("\n").forEach((line: string) => {
-        if (line.startsWith("#")) {
-          currentSection = line.substring(2).toLowerCase();
-          sections[currentSection] = {};
-        } else if (line.includes(":")) {
-          const [key, value] = line.split(":");
-          if (currentSection && key) {
-            sections[currentSection][key.trim()] = value.trim();
-          }
+  /**
+   * Flush the database, or only the keys of a namespace
+   *
+   * With a configured keyPrefix (or a tenant) only that namespace is flushed
+   * by default, using SCAN and UNLINK; pass `namespaceOnly: false` to flush
+   * the whole database.
+   * @param options - Namespace scope, optional tenant, timeout or signal
+   */
+  async flushDb(
+    options: {
+      namespaceOnly?: boolean;
+      tenant?: string;
+    } & OperationOptions = {}
+  ): Promise<void> {
+    return this.operations.write("flushDb", options, async () => {
+      try {
+        this.ensureConnected();
+
+        const namespace = this.getNamespace(options.tenant);
+        const namespaceOnly = options.namespaceOnly ?? namespace !== "";
+
+        if (!namespaceOnly) {
+          const masters = await this.connections.getMasters();
+          await Promise.all(masters.map(({ client }) => client.flushDb()));
+          this.logger.info(
+            "Successfully flushed database",
+            "EnhancedRedisClient"
+          );
+          return;
         }
-      });
 
-      return sections;
-    } catch (err: unknown) {
-      this.logger.error("Failed to get server info", "EnhancedRedisClient", {
-        error: this.formatError(err),
-      });
+        if (!namespace) {
+          throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+            message: "A keyPrefix or tenant is required for a namespace flush",
+          });
+        }
 
-      throw ErrorRegistry.createError(ErrorCode.REDIS_OPERATION_ERROR, {
-        operation: "getServerInfo",
-        error: this.formatError(err),
-      });
-    }
+        const removed = await this.unlinkMatching(
+          `${DefaultKeyStrategy.escapePattern(namespace)}:*`
+        );
+        this.logger.info(
+          "Successfully flushed namespace",
+          "EnhancedRedisClient",
+          {
+            namespace,
+            removed,
+          }
+        );
+      } catch (err: unknown) {
+        this.logger.error("Failed to flush database", "EnhancedRedisClient", {
+          error: this.formatError(err),
+        });
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "flushDb",
+            error: this.formatError(err),
+          },
+          ErrorCode.REDIS_OPERATION_ERROR
+        );
+      }
+    });
   }
 
-  async flushDb(): Promise<void> {
-    try {
-      if (!this.isConnected) {
-        throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-          message: "Client not connected. Call connect() first.",
-        });
+  /**
+   * Remove every key matching a pattern, scanning each master incrementally
+   * @param pattern - SCAN MATCH pattern
+   * @returns Number of keys removed
+   */
+  private async unlinkMatching(pattern: string): Promise<number> {
+    let removed = 0;
+
+    for (const { client } of await this.connections.getMasters()) {
+      let batch: string[] = [];
+
+      for await (const key of client.scanIterator({
+        MATCH: pattern,
+        COUNT: 1000,
+      })) {
+        batch.push(key);
+        if (batch.length >= 1000) {
+          removed += await this.unlinkKeys(client, batch);
+          batch = [];
+        }
       }
 
-      await this.nativeClient.flushDb();
-      this.logger.info("Successfully flushed database", "EnhancedRedisClient");
-    } catch (err: unknown) {
-      this.logger.error("Failed to flush database", "EnhancedRedisClient", {
-        error: this.formatError(err),
-      });
+      if (batch.length > 0) {
+        removed += await this.unlinkKeys(client, batch);
+      }
+    }
+    return removed;
+  }
 
-      throw ErrorRegistry.createError(ErrorCode.REDIS_OPERATION_ERROR, {
-        operation: "flushDb",
-        error: this.formatError(err),
-      });
+  /**
+   * UNLINK a batch of keys on one node
+   * @param client - The node the keys were scanned on
+   * @param keys - The keys to remove
+   * @returns Number of keys removed
+   */
+  private async unlinkKeys(
+    client: ExtendedRedisClient,
+    keys: string[]
+  ): Promise<number> {
+    if (!this.connections.isCluster()) {
+      return client.unlink(keys);
+    }
+
+    // A cluster rejects multi-key commands spanning several hash slots
+    const counts = await Promise.all(keys.map((key) => client.unlink(key)));
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Get the retries made by the client itself; managers report their own
+   */
+  getRetryStats(): RetryStats {
+    return this.operations.getRetryStats();
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      // Retrying cannot help until connect() is called
+      throw ErrorRegistry.createError(
+        ErrorCode.REDIS_CONNECTION_ERROR,
+        { message: "Client not connected. Call connect() first." },
+        { retryable: false }
+      );
     }
   }
 
@@ -0,0 +1,80 @@
+import { createClient, createCluster } from "redis";
+import { ConnectionProvider, MasterConnection } from "./connection.provider";
+import { hashSlot } from "../utils/hash.slot";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+type NativeRedisClient = ReturnType<typeof createClient>;
+type NativeRedisCluster = ReturnType<typeof createCluster>;
+type RedisClusterOptions = Parameters<typeof createCluster>[0];
+
+/**
+ * Connection provider for Redis Cluster.
+ *
+ * Key commands and MULTI blocks go through the node-redis cluster client,
+ * which routes them by hash slot and follows MOVED and ASK redirects. Work
+ * that must stay on one node (WATCH, SCAN, CONFIG, INFO) uses the node
+ * connections of the masters.
+ */
+export class ClusterConnectionProvider extends ConnectionProvider {
+  /**
+   * Constructor for ClusterConnectionProvider
+   * @param cluster - The cluster client used for all key commands
+   */
+  constructor(private readonly cluster: NativeRedisCluster) {
+    // The cluster client exposes the key commands of a single-node client
+    super([cluster as unknown as NativeRedisClient]);
+  }
+
+  /**
+   * Create a cluster client from seed nodes
+   * @param options - Seed nodes and defaults for every node connection
+   */
+  static create(options: RedisClusterOptions): ClusterConnectionProvider {
+    return new ClusterConnectionProvider(createCluster(options));
+  }
+
+  /**
+   * Run WATCH/MULTI work on an isolated connection to the master serving
+   * the key's hash slot
+   */
+  async runIsolated<R>(
+    key: string,
+    run: (client: NativeRedisClient) => Promise<R>
+  ): Promise<R> {
+    const slot = hashSlot(key);
+    const shard = this.cluster.slots[slot];
+    if (!shard) {
+      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
+        message: "No cluster master serves the hash slot",
+        slot,
+      });
+    }
+    const owner = (await this.cluster.nodeClient(
+      shard.master
+    )) as NativeRedisClient;
+    return owner.executeIsolated((isolated) =>
+      run(isolated as NativeRedisClient)
+    );
+  }
+
+  async getMasters(): Promise<MasterConnection[]> {
+    return Promise.all(
+      this.cluster.masters.map(async (master) => ({
+        address: master.address,
+        client: (await this.cluster.nodeClient(master)) as NativeRedisClient,
+      }))
+    );
+  }
+
+  isCluster(): boolean {
+    return true;
+  }
+
+  /**
+   * The cluster client reconnects its nodes on its own, so an open cluster
+   * client counts as ready
+   */
+  isReady(): boolean {
+    return this.cluster.isOpen;
+  }
+}
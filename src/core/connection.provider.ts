@@ -0,0 +1,414 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createClient } from "redis";
+import {
+  ConnectionPoolOptions,
+  ReadPolicy,
+} from "../interfaces/connection.interface";
+import { ErrorCode, ErrorRegistry } from "../errors";
+import { ConsoleLogger, LogLevel } from "../logger";
+import { CircuitBreaker } from "./circuit.breaker";
+
+type NativeRedisClient = ReturnType<typeof createClient>;
+type RedisClientOptions = NonNullable<Parameters<typeof createClient>[0]>;
+
+// Connections that already have the provider's error listener
+const listenedClients = new WeakSet<NativeRedisClient>();
+
+// Tracks whether a session has written, so its reads stay on the primary
+interface ReadSession {
+  wrote: boolean;
+}
+
+export interface MasterConnection {
+  address: string;
+  client: NativeRedisClient;
+}
+
+export const defaultConnectionPoolOptions: Required<ConnectionPoolOptions> = {
+  size: 1,
+  dedicated: true,
+};
+
+/**
+ * Owns the native connections of an EnhancedRedisClient and hands them out
+ * to the managers, so connection count and auth live in one place.
+ *
+ * Regular commands are spread over a small pool of shared connections;
+ * WATCH/MULTI work goes to a dedicated connection, one caller at a time, so
+ * it never stalls the shared ones. Reads may be sent to replicas according to
+ * a read policy.
+ */
+export class ConnectionProvider {
+  private next: number = 0;
+  private replicas: NativeRedisClient[] = [];
+  private readPolicy: ReadPolicy = "primary";
+  private nextReplica: number = 0;
+  private latencies = new Map<NativeRedisClient, number>();
+  private latencyProbe?: NodeJS.Timeout;
+  private latencyProbeInterval: number = 10000;
+  private sessionScope = new AsyncLocalStorage<ReadSession>();
+  private circuitBreaker?: CircuitBreaker;
+  // Settles when the current user of the dedicated connection is done
+  private dedicatedQueue: Promise<void> = Promise.resolve();
+  private logger = new ConsoleLogger(LogLevel.INFO);
+
+  /**
+   * Constructor for ConnectionProvider
+   * @param clients - The shared command connections; the first is primary
+   * @param dedicatedClient - Optional connection for transactional work
+   */
+  constructor(
+    private clients: NativeRedisClient[],
+    private dedicatedClient?: NativeRedisClient
+  ) {
+    if (clients.length === 0) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "A connection provider needs at least one connection",
+      });
+    }
+  }
+
+  /**
+   * Create the connections for a pool
+   * @param options - Options passed to every native client
+   * @param pool - Pool size and whether to add a dedicated connection
+   */
+  static create(
+    options: RedisClientOptions,
+    pool: ConnectionPoolOptions = {}
+  ): ConnectionProvider {
+    const { size, dedicated } = { ...defaultConnectionPoolOptions, ...pool };
+
+    if (!Number.isInteger(size) || size < 1) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Connection pool size must be a positive integer",
+        size,
+      });
+    }
+
+    const clients = Array.from({ length: size }, () => createClient(options));
+    const provider = new ConnectionProvider(
+      clients,
+      dedicated ? createClient(options) : undefined
+    );
+    provider.listenForErrors(provider.getConnections());
+    return provider;
+  }
+
+  /**
+   * Wrap a single existing connection
+   * @param client - The connection used for all work
+   */
+  static fromClient(client: NativeRedisClient): ConnectionProvider {
+    return new ConnectionProvider([client]);
+  }
+
+  /**
+   * Get a shared connection for regular commands, round-robin over the pool
+   */
+  getClient(): NativeRedisClient {
+    const client = this.clients[this.next];
+    this.next = (this.next + 1) % this.clients.length;
+    return client;
+  }
+
+  /**
+   * Get the primary connection, whose state stands for the whole pool
+   */
+  getPrimaryClient(): NativeRedisClient {
+    return this.clients[0];
+  }
+
+  /**
+   * Get the connection for WATCH/MULTI and blocking commands; falls back to
+   * the primary connection when no dedicated one is configured
+   */
+  getDedicatedClient(): NativeRedisClient {
+    return this.dedicatedClient ?? this.clients[0];
+  }
+
+  /**
+   * Send reads to replicas; the replicas are kept across a replace()
+   * @param replicas - Connections to the replicas
+   * @param readPolicy - How reads choose between primary and replicas
+   * @param latencyProbeInterval - ms between latency probes for "nearest"
+   */
+  useReplicas(
+    replicas: NativeRedisClient[],
+    readPolicy: ReadPolicy,
+    latencyProbeInterval: number = this.latencyProbeInterval
+  ): void {
+    this.replicas = replicas;
+    this.readPolicy = readPolicy;
+    this.latencyProbeInterval = latencyProbeInterval;
+  }
+
+  /**
+   * Get a connection for reads that tolerate replication lag
+   *
+   * `replicaPreferred` rotates over the replicas that are ready and falls
+   * back to the primary; `nearest` picks the ready endpoint, primary
+   * included, with the lowest measured latency. A session that has written
+   * always reads from the primary.
+   */
+  getReadClient(): NativeRedisClient {
+    if (this.sessionScope.getStore()?.wrote) {
+      return this.getClient();
+    }
+
+    const ready = this.replicas.filter((replica) => replica.isReady);
+
+    if (this.readPolicy === "replicaPreferred" && ready.length > 0) {
+      const replica = ready[this.nextReplica % ready.length];
+      this.nextReplica = (this.nextReplica + 1) % ready.length;
+      return replica;
+    }
+
+    if (this.readPolicy === "nearest") {
+      let nearest: NativeRedisClient | undefined;
+      let lowest = this.latencies.get(this.getPrimaryClient()) ?? Infinity;
+
+      for (const replica of ready) {
+        const latency = this.latencies.get(replica) ?? Infinity;
+        if (latency < lowest) {
+          nearest = replica;
+          lowest = latency;
+        }
+      }
+      if (nearest) {
+        return nearest;
+      }
+    }
+
+    return this.getClient();
+  }
+
+  /**
+   * Run a callback as a read-your-writes session: once it has written, its
+   * later reads go to the primary instead of a replica. Nested calls join
+   * the enclosing session.
+   * @param callback - The work to run in the session
+   * @returns The callback's result
+   */
+  runInSession<R>(callback: () => Promise<R>): Promise<R> {
+    if (this.sessionScope.getStore()) {
+      return callback();
+    }
+    return this.sessionScope.run({ wrote: false }, callback);
+  }
+
+  /**
+   * Note a write in the current session, if any
+   */
+  markWritten(): void {
+    const session = this.sessionScope.getStore();
+    if (session) {
+      session.wrote = true;
+    }
+  }
+
+  /**
+   * Guard every call of the client and its managers with a circuit breaker
+   * @param breaker - The breaker
+   */
+  useCircuitBreaker(breaker: CircuitBreaker): void {
+    this.circuitBreaker = breaker;
+  }
+
+  /**
+   * Run a call through the circuit breaker, if there is one
+   * @param operation - Operation name reported when failing fast
+   * @param run - The call
+   */
+  guard<R>(operation: string, run: () => Promise<R>): Promise<R> {
+    return this.circuitBreaker
+      ? this.circuitBreaker.execute(operation, run)
+      : run();
+  }
+
+  /**
+   * Measure the round trip to the primary and every ready replica, used by
+   * the `nearest` read policy
+   */
+  async measureLatency(): Promise<void> {
+    const endpoints = [this.getPrimaryClient(), ...this.replicas];
+
+    await Promise.all(
+      endpoints.map(async (client) => {
+        if (!client.isReady) {
+          this.latencies.delete(client);
+          return;
+        }
+
+        const start = process.hrtime.bigint();
+        try {
+          await client.ping();
+          this.latencies.set(
+            client,
+            Number(process.hrtime.bigint() - start) / 1e6
+          );
+        } catch {
+          this.latencies.delete(client);
+        }
+      })
+    );
+  }
+
+  /**
+   * Run WATCH/MULTI work on a connection no other command uses meanwhile
+   *
+   * The dedicated connection serves one caller at a time and is unwatched
+   * after a failure, so no WATCH leaks into the next caller. Without a
+   * dedicated connection, node-redis runs the work on a connection from its
+   * isolation pool (`isolationPoolOptions`, unbounded by default).
+   * @param key - A key touched by the work; selects the node in cluster mode
+   * @param run - The work
+   */
+  async runIsolated<R>(
+    key: string,
+    run: (client: NativeRedisClient) => Promise<R>
+  ): Promise<R> {
+    const dedicated = this.dedicatedClient;
+    if (!dedicated) {
+      return this.getPrimaryClient().executeIsolated((isolated) =>
+        run(isolated as NativeRedisClient)
+      );
+    }
+
+    const previous = this.dedicatedQueue;
+    let release!: () => void;
+    this.dedicatedQueue = new Promise((resolve) => (release = resolve));
+    await previous;
+
+    try {
+      return await run(dedicated);
+    } catch (err: unknown) {
+      await dedicated.unwatch().catch(() => undefined);
+      throw err;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Get a connection to every master, for server commands such as CONFIG,
+   * INFO or SCAN that apply to one node only
+   */
+  async getMasters(): Promise<MasterConnection[]> {
+    return [{ address: "primary", client: this.getPrimaryClient() }];
+  }
+
+  /**
+   * Check whether the connections belong to a Redis Cluster
+   */
+  isCluster(): boolean {
+    return false;
+  }
+
+  /**
+   * Get every connection owned by the provider
+   */
+  getConnections(): NativeRedisClient[] {
+    return this.dedicatedClient
+      ? [...this.clients, this.dedicatedClient]
+      : [...this.clients];
+  }
+
+  /**
+   * Check whether the primary connection is open
+   */
+  isOpen(): boolean {
+    return this.getPrimaryClient().isOpen;
+  }
+
+  /**
+   * Check whether the primary connection is open and not reconnecting
+   */
+  isReady(): boolean {
+    return this.getPrimaryClient().isReady;
+  }
+
+  /**
+   * Open every connection that is not open yet
+   */
+  async connect(): Promise<void> {
+    await Promise.all(
+      [...this.getConnections(), ...this.replicas]
+        .filter((client) => !client.isOpen)
+        .map((client) => client.connect())
+    );
+
+    if (this.readPolicy === "nearest" && this.replicas.length > 0) {
+      await this.measureLatency();
+      this.startLatencyProbe();
+    }
+  }
+
+  private startLatencyProbe(): void {
+    if (this.latencyProbe) {
+      return;
+    }
+
+    this.latencyProbe = setInterval(() => {
+      this.measureLatency().catch(() => undefined);
+    }, this.latencyProbeInterval);
+    // The probe alone must not keep the process alive
+    this.latencyProbe.unref();
+  }
+
+  /**
+   * Take over the connections of another provider, e.g. after a failover,
+   * and drop the previous ones; holders of this provider follow along
+   * @param next - Provider with connections to the new endpoint
+   */
+  async replace(next: ConnectionProvider): Promise<void> {
+    await next.connect();
+
+    const previous = this.getConnections();
+    this.clients = next.clients;
+    this.dedicatedClient = next.dedicatedClient;
+    this.next = 0;
+    this.listenForErrors(this.getConnections());
+
+    // The old endpoint may be unreachable, so close without waiting on QUIT
+    await Promise.all(
+      previous
+        .filter((client) => client.isOpen)
+        .map((client) => client.disconnect())
+    );
+  }
+
+  /**
+   * Log the errors of connections nobody else listens to; node-redis emits
+   * one per socket failure, and an unhandled "error" event would crash the
+   * process before the reconnect strategy could run
+   * @param clients - The connections to listen to
+   */
+  private listenForErrors(clients: NativeRedisClient[]): void {
+    for (const client of clients) {
+      if (listenedClients.has(client)) {
+        continue;
+      }
+      listenedClients.add(client);
+      client.on("error", (err: Error) => {
+        this.logger.warn("Redis connection error", "ConnectionProvider", {
+          error: err.message,
+        });
+      });
+    }
+  }
+
+  /**
+   * Gracefully close every open connection
+   */
+  async disconnect(): Promise<void> {
+    clearInterval(this.latencyProbe);
+    this.latencyProbe = undefined;
+
+    await Promise.all(
+      [...this.getConnections(), ...this.replicas]
+        .filter((client) => client.isOpen)
+        .map((client) => client.quit())
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { Schema } from "redis-om";
+import { createClient } from "redis";
+import { EntityData } from "../interfaces/entity.interface";
+import {
+  EntityVersionInfo,
+  HistoryOptions,
+} from "../interfaces/history.interface";
+
+type NativeRedisClient = ReturnType<typeof createClient>;
+type RedisMulti = ReturnType<NativeRedisClient["multi"]>;
+
+/**
+ * Stores every saved version of an entity in a hash next to the entity,
+ * keyed by version number, and enforces the configured retention.
+ */
+export class EntityHistory<T extends EntityData> {
+  /**
+   * Constructor for EntityHistory
+   * @param schema - The Redis-OM schema for entities
+   * @param options - Retention settings
+   * @param getHistoryKey - Resolves the history key of an entity
+   */
+  constructor(
+    private readonly schema: Schema,
+    private readonly options: HistoryOptions,
+    private readonly getHistoryKey: (entityId: string) => string
+  ) {}
+
+  /**
+   * Check whether history mode is enabled
+   */
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Append a snapshot of an entity to a MULTI block
+   * @param multi - The MULTI command chain to extend
+   * @param entity - The entity as it is being saved
+   * @returns Number of commands queued
+   */
+  queueSnapshot(multi: RedisMulti, entity: T): number {
+    multi.hSet(
+      this.getHistoryKey(entity.entityId!),
+      String(entity.version),
+      JSON.stringify(entity)
+    );
+    return 1;
+  }
+
+  /**
+   * Store a snapshot of an entity outside of a transaction
+   * @param client - The connection to write on
+   * @param entity - The entity as currently stored
+   */
+  async record(client: NativeRedisClient, entity: T): Promise<void> {
+    await client.hSet(
+      this.getHistoryKey(entity.entityId!),
+      String(entity.version),
+      JSON.stringify(entity)
+    );
+  }
+
+  /**
+   * Drop versions beyond the configured count or age; the newest version
+   * is always kept
+   * @param client - The connection to use
+   * @param entityId - The entity whose history to trim
+   */
+  async trim(client: NativeRedisClient, entityId: string): Promise<void> {
+    const { maxVersions, maxAge } = this.options;
+    if (maxVersions === undefined && maxAge === undefined) {
+      return;
+    }
+
+    const versions = await this.list(client, entityId);
+    const cutoff = maxAge !== undefined ? Date.now() - maxAge : 0;
+    const keepFrom =
+      maxVersions !== undefined ? versions.length - maxVersions : 0;
+
+    const expired = versions
+      .slice(0, -1)
+      .filter(
+        (info, index) => index < keepFrom || info.lastUpdated.getTime() < cutoff
+      )
+      .map((info) => String(info.version));
+
+    if (expired.length > 0) {
+      await client.hDel(this.getHistoryKey(entityId), expired);
+    }
+  }
+
+  /**
+   * List the stored versions of an entity, oldest first
+   * @param client - The connection to read on
+   * @param entityId - The entity ID
+   */
+  async list(
+    client: NativeRedisClient,
+    entityId: string
+  ): Promise<EntityVersionInfo[]> {
+    const snapshots = await client.hVals(this.getHistoryKey(entityId));
+
+    return snapshots
+      .map((raw) => this.parse(raw))
+      .map((entity) => ({
+        version: entity.version!,
+        lastUpdated: entity.lastUpdated!,
+      }))
+      .sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Read one stored version of an entity
+   * @param client - The connection to read on
+   * @param entityId - The entity ID
+   * @param version - The version to read
+   * @returns The entity as of that version, or null if not retained
+   */
+  async fetch(
+    client: NativeRedisClient,
+    entityId: string,
+    version: number
+  ): Promise<T | null> {
+    const raw = await client.hGet(
+      this.getHistoryKey(entityId),
+      String(version)
+    );
+    return raw ? this.parse(raw) : null;
+  }
+
+  /**
+   * Read the version of an entity that was current at a point in time
+   * @param client - The connection to read on
+   * @param entityId - The entity ID
+   * @param date - The point in time
+   * @returns The latest version saved at or before `date`, or null
+   */
+  async fetchAsOf(
+    client: NativeRedisClient,
+    entityId: string,
+    date: Date
+  ): Promise<T | null> {
+    const versions = await this.list(client, entityId);
+    const match = versions
+      .filter((info) => info.lastUpdated.getTime() <= date.getTime())
+      .pop();
+
+    return match ? this.fetch(client, entityId, match.version) : null;
+  }
+
+  private parse(raw: string): T {
+    const entity = JSON.parse(raw);
+
+    // JSON turns dates into strings; restore the ones the schema declares
+    this.schema.fields
+      .filter((field) => field.type === "date")
+      .map((field) => field.name)
+      .concat("lastUpdated")
+      .forEach((name) => {
+        if (typeof entity[name] === "string") {
+          entity[name] = new Date(entity[name]);
+        }
+      });
+
+    return entity as T;
+  }
+}
@@ -0,0 +1,76 @@
+import { KeyStrategy, KeyStrategyOptions } from "../interfaces/key.interface";
+
+/**
+ * Default key layout, compatible with Redis-OM repositories:
+ * entities live at `<prefix>:<id>` and their history at
+ * `<prefix>:history:<id>`.
+ *
+ * With hash tags the ID is written as `{<id>}`, so an entity and its history
+ * always hash to the same cluster slot.
+ */
+export class DefaultKeyStrategy implements KeyStrategy {
+  private static readonly RESERVED = ["history:", "index:"];
+
+  /**
+   * Constructor for DefaultKeyStrategy
+   * @param prefix - Key prefix, usually the schema name
+   * @param options - Whether to hash-tag entity IDs
+   */
+  constructor(
+    private readonly prefix: string,
+    private readonly options: KeyStrategyOptions = {}
+  ) {}
+
+  entityKey(entityId: string): string {
+    return `${this.prefix}:${this.tag(entityId)}`;
+  }
+
+  historyKey(entityId: string): string {
+    return `${this.prefix}:history:${this.tag(entityId)}`;
+  }
+
+  entityPattern(): string {
+    return `${DefaultKeyStrategy.escapePattern(this.prefix)}:*`;
+  }
+
+  parseEntityId(key: string): string | null {
+    if (!key.startsWith(`${this.prefix}:`)) {
+      return null;
+    }
+
+    const entityId = key.substring(this.prefix.length + 1);
+    const reserved = DefaultKeyStrategy.RESERVED.some((marker) =>
+      entityId.startsWith(marker)
+    );
+
+    if (!entityId || reserved) {
+      return null;
+    }
+    if (!this.options.hashTags) {
+      return entityId;
+    }
+
+    const tagged = entityId.startsWith("{") && entityId.endsWith("}");
+    return tagged && entityId.length > 2 ? entityId.slice(1, -1) : null;
+  }
+
+  private tag(entityId: string): string {
+    return this.options.hashTags ? `{${entityId}}` : entityId;
+  }
+
+  /**
+   * Join namespace segments into a key prefix, skipping empty ones
+   * @param segments - e.g. the configured key prefix, tenant and schema name
+   */
+  static joinPrefix(...segments: (string | undefined)[]): string {
+    return segments.filter((segment) => !!segment).join(":");
+  }
+
+  /**
+   * Escape glob characters so a literal string can be used in MATCH
+   * @param value - The literal string
+   */
+  static escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, "\\$&");
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  HealthRule,
+  HealthRuleResult,
+  HealthSeverity,
+  PersistenceHealthThresholds,
+  PersistenceNodeHealth,
+} from "../interfaces/persistence.interface";
+
+export const defaultHealthThresholds: Required<PersistenceHealthThresholds> = {
+  maxUnsavedAge: 15 * 60 * 1000,
+  maxForkTime: 1000,
+  maxAofBufferLength: 32 * 1024 * 1024,
+};
+
+/**
+ * The default persistence health rules
+ * @param thresholds - Overrides of the default thresholds
+ */
+export function createHealthRules(
+  thresholds: PersistenceHealthThresholds = {}
+): HealthRule[] {
+  const { maxUnsavedAge, maxForkTime, maxAofBufferLength } = {
+    ...defaultHealthThresholds,
+    ...thresholds,
+  };
+
+  return [
+    {
+      name: "loading",
+      severity: "critical",
+      check: (health) =>
+        health.loading ? "Dataset is still loading from disk" : undefined,
+    },
+    {
+      name: "lastBgsaveFailed",
+      severity: "critical",
+      check: (health) =>
+        health.rdbLastBgsaveStatus === "err"
+          ? "Last background save failed"
+          : undefined,
+    },
+    {
+      name: "aofWriteFailed",
+      severity: "critical",
+      check: (health) =>
+        health.aofEnabled && health.aofLastWriteStatus === "err"
+          ? "Last AOF write failed"
+          : undefined,
+    },
+    {
+      name: "aofRewriteFailed",
+      severity: "warning",
+      check: (health) =>
+        health.aofEnabled && health.aofLastBgrewriteStatus === "err"
+          ? "Last AOF rewrite failed"
+          : undefined,
+    },
+    {
+      // Without AOF, changes since the last save are lost on a crash
+      name: "unsavedChanges",
+      severity: "warning",
+      check: (health, now) => {
+        const age = now - health.lastRdbSaveTime * 1000;
+        return !health.aofEnabled &&
+          health.rdbChangesSinceLastSave > 0 &&
+          age > maxUnsavedAge
+          ? `${health.rdbChangesSinceLastSave} changes unsaved for ${Math.round(
+              age / 60000
+            )} minutes`
+          : undefined;
+      },
+    },
+    {
+      name: "slowFork",
+      severity: "warning",
+      check: (health) =>
+        health.latestForkUsec > maxForkTime * 1000
+          ? `Latest fork took ${Math.round(health.latestForkUsec / 1000)} ms`
+          : undefined,
+    },
+    {
+      name: "aofBufferFull",
+      severity: "warning",
+      check: (health) =>
+        health.aofBufferLength > maxAofBufferLength
+          ? `AOF buffer holds ${health.aofBufferLength} bytes`
+          : undefined,
+    },
+  ];
+}
+
+/**
+ * Parse the output of INFO persistence
+ * @param info - The raw INFO reply
+ */
+export function parsePersistenceHealth(info: string): PersistenceNodeHealth {
+  const fields: Record<string, string> = Object.fromEntries(
+    info
+      .split("\n")
+      .map((line) => line.trim().split(":"))
+      .filter(([key, value]) => key && value !== undefined)
+  );
+  const flag = (key: string) => fields[key] === "1";
+  const number = (key: string) => parseInt(fields[key] ?? "0") || 0;
+
+  return {
+    loading: flag("loading"),
+    rdbSaveInProgress: flag("rdb_bgsave_in_progress"),
+    aofRewriteInProgress: flag("aof_rewrite_in_progress"),
+    aofRewriteScheduled: flag("aof_rewrite_scheduled"),
+    aofEnabled: flag("aof_enabled"),
+    lastRdbSaveTime: number("rdb_last_save_time"),
+    lastAofRewriteTime: number("aof_last_rewrite_time"),
+    rdbLastBgsaveStatus: fields.rdb_last_bgsave_status,
+    aofLastWriteStatus: fields.aof_last_write_status,
+    aofLastBgrewriteStatus: fields.aof_last_bgrewrite_status,
+    rdbChangesSinceLastSave: number("rdb_changes_since_last_save"),
+    latestForkUsec: number("latest_fork_usec"),
+    aofBufferLength: number("aof_buffer_length"),
+    aofRewriteBufferLength: number("aof_rewrite_buffer_length"),
+  };
+}
+
+/**
+ * Run every rule against every node
+ * @param nodes - Node health keyed by address
+ * @param rules - The rules to evaluate
+ * @param now - Current time in ms since the epoch
+ */
+export function evaluateHealthRules(
+  nodes: Record<string, PersistenceNodeHealth>,
+  rules: HealthRule[],
+  now: number = Date.now()
+): HealthRuleResult[] {
+  return Object.entries(nodes).flatMap(([address, health]) =>
+    rules.map((rule) => {
+      const message = rule.check(health, now);
+      return message === undefined
+        ? { rule: rule.name, address, passed: true, severity: "ok" as const }
+        : {
+            rule: rule.name,
+            address,
+            passed: false,
+            severity: rule.severity,
+            message,
+          };
+    })
+  );
+}
+
+const severityOrder: HealthSeverity[] = ["ok", "warning", "critical"];
+
+/**
+ * The worst severity among the results, "ok" when all passed
+ */
+export function worstSeverity(results: HealthRuleResult[]): HealthSeverity {
+  return results.reduce<HealthSeverity>(
+    (worst, { severity }) =>
+      severityOrder.indexOf(severity) > severityOrder.indexOf(worst)
+        ? severity
+        : worst,
+    "ok"
+  );
+}
@@ -1,48 +1,108 @@
 import { Client } from "redis-om";
 import {
+  BackgroundJob,
+  BackgroundJobOptions,
+  BackgroundJobResult,
+  ClusterPersistenceStatus,
+  HealthReportOptions,
   PersistenceConfig,
+  PersistenceChange,
+  PersistenceDrift,
+  PersistenceHealthReport,
+  PersistenceManagerEvents,
+  PersistenceManagerOptions,
+  PersistencePlan,
+  PersistenceStatus,
   PersistenceType,
+  RDBOptions,
+  ReconcileOptions,
+  ReconcilerOptions,
+  SavePoint,
+  SetPersistenceOptions,
 } from "../interfaces/persistence.interface";
 import { defaultPersistenceConfig } from "../config/persistence.config";
 import { ConsoleLogger, LogLevel } from "../logger";
 import {
   BaseError,
   ErrorCode,
+  ErrorHandler,
   ErrorRegistry,
   PersistenceErrorHandler,
 } from "../errors";
 import { createClient } from "redis";
+import { ConnectionProvider } from "./connection.provider";
+import {
+  OperationOptions,
+  RetryStats,
+} from "../interfaces/connection.interface";
+import { withTimeout } from "../utils/timeout";
+import { validateRetryPolicy } from "../utils/retry";
+import { OperationRunner } from "../utils/operation.runner";
+import { TypedEventEmitter } from "../utils/typed.emitter";
+import {
+  createHealthRules,
+  evaluateHealthRules,
+  parsePersistenceHealth,
+  worstSeverity,
+} from "./persistence.health";
 
 // Extending the Client type to include Redis commands we need
 interface ExtendedRedisClient extends Client {
   info(section: string): Promise<string>;
 }
 
-export class PersistenceManager {
+// A master being configured, with what is needed to roll it back
+interface AppliedNode {
+  address: string;
+  client: ReturnType<typeof createClient>;
+  previous: Record<string, string | undefined>;
+  set: string[]; // keys set so far, in order
+  rewritten: boolean;
+}
+
+export class PersistenceManager extends TypedEventEmitter<PersistenceManagerEvents> {
   private client: ExtendedRedisClient;
   private config: PersistenceConfig;
-  private errorHandler: PersistenceErrorHandler;
+  private errorHandler: ErrorHandler;
   private logger: ConsoleLogger;
-  // Initialize with null and use type assertion to handle the definite assignment
-  private nativeClient: ReturnType<typeof createClient> = createClient(
-    {}
-  ) as ReturnType<typeof createClient>;
+  private connections!: ConnectionProvider;
+  // A shared provider is closed by its owner, not by this manager
+  private ownsConnections: boolean = true;
+  private operations: OperationRunner;
+  private reconcileTimer?: NodeJS.Timeout;
+  // Applies run one at a time so a rollback never undoes a later apply
+  private applyQueue: Promise<void> = Promise.resolve();
+  private reconciling = false;
 
   constructor(
     client: Client,
-    nativeClient?: ReturnType<typeof createClient>,
-    config: PersistenceConfig = defaultPersistenceConfig
+    connection?: ConnectionProvider | ReturnType<typeof createClient>,
+    config: PersistenceConfig = defaultPersistenceConfig,
+    options: PersistenceManagerOptions = {}
   ) {
+    super();
     this.client = client as ExtendedRedisClient;
     this.config = config;
-    this.errorHandler = new PersistenceErrorHandler();
+    if (options.retry) {
+      validateRetryPolicy(options.retry);
+    }
+    this.errorHandler = options.errorHandler ?? new PersistenceErrorHandler();
     this.logger = new ConsoleLogger(LogLevel.INFO);
 
-    if (nativeClient) {
-      this.nativeClient = nativeClient;
+    if (connection instanceof ConnectionProvider) {
+      this.connections = connection;
+      this.ownsConnections = false;
+    } else if (connection) {
+      this.connections = ConnectionProvider.fromClient(connection);
     } else {
       this.initializeNativeClient();
     }
+    this.operations = new OperationRunner(
+      this.connections,
+      { commandTimeout: options.commandTimeout, retry: options.retry },
+      this.logger,
+      "PersistenceManager"
+    );
   }
 
   private initializeNativeClient(): void {
@@ -52,13 +112,14 @@ export class PersistenceManager {
         "PersistenceManager"
       );
 
-      this.nativeClient = createClient({
+      const nativeClient = createClient({
         url: (this.client as any).url,
       });
+      this.connections = ConnectionProvider.fromClient(nativeClient);
 
       // Only auto-connect if not provided externally and not in test environment
       if (process.env.NODE_ENV !== "test") {
-        this.nativeClient.connect().catch((err) => {
+        nativeClient.connect().catch((err) => {
           this.logger.error(
             "Failed to connect native client",
             "PersistenceManager",
@@ -76,12 +137,23 @@ export class PersistenceManager {
           error: this.formatError(err),
         }
       );
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          error: this.formatError(err),
+        },
+        ErrorCode.REDIS_CONNECTION_ERROR
+      );
     }
   }
 
+  /**
+   * Get the retries made by this manager
+   */
+  getRetryStats(): RetryStats {
+    return this.operations.getRetryStats();
+  }
+
   private formatError(error: unknown): Record<string, any> {
     if (error instanceof Error) {
       return {
@@ -93,46 +165,68 @@ export class PersistenceManager {
     return { unknownError: String(error) };
   }
 
-  async setPersistence(config: PersistenceConfig): Promise<void> {
-    try {
-      this.logger.debug(
-        "Setting persistence configuration",
-        "PersistenceManager",
-        { config }
-      );
-
-      // Validate configuration
-      this.validatePersistenceConfig(config);
+  /**
+   * Apply a persistence configuration to every master
+   *
+   * The previous values are read first and restored on every master if any
+   * CONFIG SET, or the optional CONFIG REWRITE, fails, or if the timeout or
+   * signal gives up on the call before it has finished.
+   * @param config - The persistence configuration
+   * @param options - Timeout, AbortSignal, retry and whether to CONFIG REWRITE
+   */
+  async setPersistence(
+    config: PersistenceConfig,
+    options: SetPersistenceOptions = {}
+  ): Promise<void> {
+    return this.operations.write("setPersistence", options, async (signal) => {
+      try {
+        this.logger.debug(
+          "Setting persistence configuration",
+          "PersistenceManager",
+          { config }
+        );
 
-      this.config = config;
-      await this.applyPersistenceConfig();
+        // Validate configuration
+        this.validatePersistenceConfig(config);
 
-      this.logger.info(
-        "Persistence configuration applied successfully",
-        "PersistenceManager",
-        {
-          type: config.type,
-        }
-      );
-    } catch (err: unknown) {
-      this.logger.error(
-        "Failed to set persistence configuration",
-        "PersistenceManager",
-        {
-          error: this.formatError(err),
+        await this.applyPersistenceConfig(
           config,
+          options.rewrite === true,
+          signal
+        );
+        this.config = config;
+
+        this.logger.info(
+          "Persistence configuration applied successfully",
+          "PersistenceManager",
+          {
+            type: config.type,
+          }
+        );
+      } catch (err: unknown) {
+        this.logger.error(
+          "Failed to set persistence configuration",
+          "PersistenceManager",
+          {
+            error: this.formatError(err),
+            config,
+          }
+        );
+
+        if (err instanceof BaseError) {
+          throw err; // Already a custom error
         }
-      );
 
-      if (err instanceof BaseError) {
-        throw err; // Already a custom error
+        throw this.errorHandler.handleError(
+          err,
+          {
+            config,
+            error: this.formatError(err),
+          },
+          ErrorCode.PERSISTENCE_CONFIG_ERROR
+        );
       }
-
-      throw ErrorRegistry.createError(ErrorCode.PERSISTENCE_CONFIG_ERROR, {
-        config,
-        error: this.formatError(err),
-      });
-    }
+    });
   }
 
   private validatePersistenceConfig(config: PersistenceConfig): void {
@@ -143,75 +237,306 @@ export class PersistenceManager {
       });
     }
 
+    const usesRdb =
+      config.type === PersistenceType.RDB ||
+      config.type === PersistenceType.HYBRID;
+    const usesAof =
+      config.type === PersistenceType.AOF ||
+      config.type === PersistenceType.HYBRID;
+
     if (
-      config.type === PersistenceType.RDB &&
-      !config.rdbOptions?.saveFrequency
+      usesRdb &&
+      !config.rdbOptions?.saveFrequency &&
+      !config.rdbOptions?.savePoints?.length
     ) {
       throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
-        message: "RDB save frequency is required when using RDB persistence",
+        message: `RDB save frequency or save points are required when using ${config.type} persistence`,
         config,
       });
     }
 
+    const isPositiveInteger = (value: number) =>
+      Number.isInteger(value) && value > 0;
     if (
-      config.type === PersistenceType.AOF &&
-      !config.aofOptions?.appendfsync
+      usesRdb &&
+      config.rdbOptions?.savePoints?.some(
+        ({ seconds, changes }) =>
+          !isPositiveInteger(seconds) || !isPositiveInteger(changes)
+      )
     ) {
       throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
-        message: "AOF sync option is required when using AOF persistence",
+        message: "Save points need positive integer seconds and changes",
+        config,
+      });
+    }
+
+    if (usesAof && !config.aofOptions?.appendfsync) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: `AOF sync option is required when using ${config.type} persistence`,
         config,
       });
     }
   }
 
-  private async applyPersistenceConfig(): Promise<void> {
+  /**
+   * Show what setPersistence() would change on each master, without
+   * changing anything
+   * @param config - The persistence configuration
+   * @param options - Timeout or AbortSignal for this call
+   */
+  async planPersistence(
+    config: PersistenceConfig,
+    options: OperationOptions = {}
+  ): Promise<PersistencePlan> {
+    return this.operations.read("planPersistence", options, async () => {
+      try {
+        this.validatePersistenceConfig(config);
+
+        if (!this.connections.isOpen()) {
+          throw new Error("Redis client is not connected");
+        }
+
+        const settings = this.toSettings(config);
+        const masters = await this.connections.getMasters();
+        const changes: PersistenceChange[] = [];
+        for (const { address, client } of masters) {
+          const current = await this.readSettings(
+            client,
+            Object.keys(settings)
+          );
+          for (const [key, to] of Object.entries(settings)) {
+            if (current[key] !== to) {
+              changes.push({ address, key, from: current[key], to });
+            }
+          }
+        }
+
+        this.logger.debug(
+          "Persistence configuration planned",
+          "PersistenceManager",
+          { type: config.type, changes: changes.length }
+        );
+        return { config, changes };
+      } catch (err: unknown) {
+        this.logger.error(
+          "Failed to plan persistence configuration",
+          "PersistenceManager",
+          {
+            error: this.formatError(err),
+            config,
+          }
+        );
+
+        if (err instanceof BaseError) {
+          throw err; // Already a custom error
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "planPersistence",
+            error: this.formatError(err),
+          },
+          ErrorCode.PERSISTENCE_OPERATION_ERROR
+        );
+      }
+    });
+  }
+
+  /**
+   * Compare every master with the desired configuration and emit `drift`
+   * when they differ, e.g. after a manual CONFIG SET. With `reapply` the
+   * desired configuration is applied again and `reconciled` is emitted.
+   * @param desired - The configuration the servers should have
+   * @param options - Timeout, AbortSignal and whether to re-apply
+   * @returns The drift, or undefined when the servers match
+   */
+  async reconcile(
+    desired: PersistenceConfig,
+    options: ReconcileOptions = {}
+  ): Promise<PersistenceDrift | undefined> {
+    const { reapply, rewrite, ...operationOptions } = options;
+
+    const { changes } = await this.planPersistence(desired, operationOptions);
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    const drift = { desired, changes };
+    this.logger.warn(
+      "Persistence configuration drifted",
+      "PersistenceManager",
+      {
+        type: desired.type,
+        changes,
+      }
+    );
+    this.emit("drift", drift);
+
+    if (reapply) {
+      await this.setPersistence(desired, { ...operationOptions, rewrite });
+      this.emit("reconciled", drift);
+    }
+    return drift;
+  }
+
+  /**
+   * Run reconcile() on an interval until stopReconciler() or disconnect().
+   * Failed checks are logged and emitted as `reconcileError`; a check is
+   * skipped while the previous one is still running.
+   * @param desired - The configuration the servers should have
+   * @param options - Interval, and the options of each reconcile()
+   */
+  startReconciler(
+    desired: PersistenceConfig,
+    options: ReconcilerOptions = {}
+  ): void {
+    const { interval = 60000, ...reconcileOptions } = options;
+    if (!(interval > 0 && interval < Infinity)) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Reconcile interval must be a positive number of milliseconds",
+        interval,
+      });
+    }
+    this.validatePersistenceConfig(desired);
+
+    this.stopReconciler();
+    this.reconcileTimer = setInterval(async () => {
+      if (this.reconciling) {
+        return;
+      }
+      this.reconciling = true;
+      try {
+        await this.reconcile(desired, reconcileOptions);
+      } catch (err: unknown) {
+        const error =
+          err instanceof BaseError
+            ? err
+            : this.errorHandler.handleError(
+                err,
+                { operation: "reconcile" },
+                ErrorCode.PERSISTENCE_OPERATION_ERROR
+              );
+        this.logger.error(
+          "Persistence reconciliation failed",
+          "PersistenceManager",
+          {
+            error: this.formatError(error),
+          }
+        );
+        this.emit("reconcileError", error);
+      } finally {
+        this.reconciling = false;
+      }
+    }, interval);
+    this.reconcileTimer.unref();
+
+    this.logger.info("Persistence reconciler started", "PersistenceManager", {
+      type: desired.type,
+      interval,
+      reapply: reconcileOptions.reapply === true,
+    });
+  }
+
+  stopReconciler(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+      this.logger.info("Persistence reconciler stopped", "PersistenceManager");
+    }
+  }
+
+  /**
+   * Set the configuration on every master, rolling back what was set when a
+   * command fails or the signal aborts between two commands
+   * @param config - The persistence configuration
+   * @param rewrite - Whether to CONFIG REWRITE afterwards
+   * @param signal - Aborted once the caller has given up on the apply
+   */
+  private async applyPersistenceConfig(
+    config: PersistenceConfig,
+    rewrite: boolean,
+    signal: AbortSignal
+  ): Promise<void> {
+    const previous = this.applyQueue;
+    let release!: () => void;
+    this.applyQueue = new Promise((resolve) => (release = resolve));
+    await previous;
+
+    try {
+      await this.applySettings(config, rewrite, signal);
+    } finally {
+      release();
+    }
+  }
+
+  private async applySettings(
+    config: PersistenceConfig,
+    rewrite: boolean,
+    signal: AbortSignal
+  ): Promise<void> {
+    const applied: AppliedNode[] = [];
+    const checkAborted = () => {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+    };
+
     try {
       this.logger.debug(
         "Applying persistence configuration",
         "PersistenceManager"
       );
 
-      if (!this.nativeClient.isOpen) {
+      if (!this.connections.isOpen()) {
         throw new Error("Redis client is not connected");
       }
 
-      // Configure RDB
-      if (this.config.type === PersistenceType.RDB) {
-        this.logger.debug("Configuring RDB persistence", "PersistenceManager", {
-          saveFrequency: this.config.rdbOptions?.saveFrequency,
-        });
+      // Every master persists its own share of the keyspace
+      const settings = this.toSettings(config);
+      const masters = await this.connections.getMasters();
+      for (const { address, client } of masters) {
+        const node: AppliedNode = {
+          address,
+          client,
+          previous: await this.readSettings(client, Object.keys(settings)),
+          set: [],
+          rewritten: false,
+        };
+        applied.push(node);
 
-        await this.nativeClient.configSet(
-          "save",
-          `${this.config.rdbOptions?.saveFrequency ?? 3600} 1`
-        );
-      } else {
-        this.logger.debug("Disabling RDB persistence", "PersistenceManager");
-        await this.nativeClient.configSet("save", "");
+        for (const [key, value] of Object.entries(settings)) {
+          this.logger.debug(
+            "Setting persistence option",
+            "PersistenceManager",
+            {
+              address,
+              key,
+              value,
+            }
+          );
+          checkAborted();
+          await client.configSet(key, value);
+          node.set.push(key);
+        }
       }
 
-      // Configure AOF
-      await this.nativeClient.configSet(
-        "appendonly",
-        this.config.type === PersistenceType.AOF ? "yes" : "no"
-      );
-
-      if (this.config.type === PersistenceType.AOF && this.config.aofOptions) {
-        this.logger.debug("Configuring AOF persistence", "PersistenceManager", {
-          appendfsync: this.config.aofOptions.appendfsync,
-        });
-
-        await this.nativeClient.configSet(
-          "appendfsync",
-          this.config.aofOptions.appendfsync
-        );
+      if (rewrite) {
+        for (const node of applied) {
+          checkAborted();
+          await node.client.configRewrite();
+          node.rewritten = true;
+        }
       }
+      // The caller has already been told the apply failed
+      checkAborted();
 
       this.logger.info(
         "Persistence configuration applied",
         "PersistenceManager",
         {
-          type: this.config.type,
+          type: config.type,
+          rewrite,
         }
       );
     } catch (err: unknown) {
@@ -220,146 +545,584 @@ export class PersistenceManager {
         "PersistenceManager",
         {
           error: this.formatError(err),
-          config: this.config,
+          config,
         }
       );
 
-      throw ErrorRegistry.createError(ErrorCode.PERSISTENCE_OPERATION_ERROR, {
-        operation: "applyConfig",
-        error: this.formatError(err),
-      });
+      const rollbackFailures = await this.rollback(applied);
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation: "applyConfig",
+          error: this.formatError(err),
+          rolledBack: rollbackFailures.length === 0,
+          ...(rollbackFailures.length > 0 && { rollbackFailures }),
+        },
+        ErrorCode.PERSISTENCE_OPERATION_ERROR
+      );
     }
   }
 
-  async getCurrentConfig(): Promise<PersistenceConfig> {
-    try {
-      this.logger.debug(
-        "Fetching current persistence configuration",
-        "PersistenceManager"
-      );
+  /**
+   * Restore the values captured before a failed apply, newest first
+   * @returns The addresses of the masters that could not be restored
+   */
+  private async rollback(applied: AppliedNode[]): Promise<string[]> {
+    const failures: string[] = [];
 
-      if (!this.nativeClient.isOpen) {
-        throw new Error("Redis client is not connected");
+    for (const node of [...applied].reverse()) {
+      try {
+        for (const key of [...node.set].reverse()) {
+          const value = node.previous[key];
+          if (value !== undefined) {
+            await node.client.configSet(key, value);
+          }
+        }
+        if (node.rewritten) {
+          await node.client.configRewrite();
+        }
+
+        if (node.set.length > 0) {
+          this.logger.warn(
+            "Persistence configuration rolled back",
+            "PersistenceManager",
+            { address: node.address, keys: node.set }
+          );
+        }
+      } catch (err: unknown) {
+        failures.push(node.address);
+        this.logger.error(
+          "Failed to roll back persistence configuration",
+          "PersistenceManager",
+          {
+            address: node.address,
+            previous: node.previous,
+            error: this.formatError(err),
+          }
+        );
       }
+    }
 
-      const [save, appendonly, appendfsync] = await Promise.all([
-        this.nativeClient.configGet("save"),
-        this.nativeClient.configGet("appendonly"),
-        this.nativeClient.configGet("appendfsync"),
-      ]);
+    return failures;
+  }
 
-      const config: PersistenceConfig = {
-        type: PersistenceType.NONE,
-      };
+  /**
+   * The CONFIG values of a persistence configuration, in the order they
+   * are set
+   */
+  private toSettings(config: PersistenceConfig): Record<string, string> {
+    const hybrid = config.type === PersistenceType.HYBRID;
+    const rdb = config.type === PersistenceType.RDB || hybrid;
+    const aof = config.type === PersistenceType.AOF || hybrid;
 
-      if (save.save && save.save !== "") {
-        config.type = PersistenceType.RDB;
-        config.rdbOptions = {
-          saveFrequency: parseInt(save.save.split(" ")[0]),
-        };
-      } else if (appendonly.appendonly === "yes") {
-        config.type = PersistenceType.AOF;
-        config.aofOptions = {
-          appendfsync: appendfsync.appendfsync as any,
+    const settings: Record<string, string> = {
+      save: rdb ? this.formatSavePoints(config.rdbOptions) : "",
+      appendonly: aof ? "yes" : "no",
+    };
+
+    if (aof && config.aofOptions) {
+      settings.appendfsync = config.aofOptions.appendfsync;
+    }
+    if (hybrid) {
+      // A hybrid AOF starts with an RDB snapshot, so rewrites and loads are
+      // faster; plain AOF keeps the server's own setting
+      settings["aof-use-rdb-preamble"] = "yes";
+    }
+
+    return settings;
+  }
+
+  private async readSettings(
+    client: ReturnType<typeof createClient>,
+    keys: string[]
+  ): Promise<Record<string, string | undefined>> {
+    const replies = await Promise.all(keys.map((key) => client.configGet(key)));
+    return Object.fromEntries(
+      keys.map((key, index) => [key, replies[index][key]])
+    );
+  }
+
+  /**
+   * Format RDB options as the value of the `save` setting,
+   * e.g. "3600 1 300 100"
+   */
+  private formatSavePoints(options?: RDBOptions): string {
+    const points: SavePoint[] = options?.savePoints?.length
+      ? options.savePoints
+      : [{ seconds: options?.saveFrequency ?? 3600, changes: 1 }];
+
+    return points
+      .map(({ seconds, changes }) => `${seconds} ${changes}`)
+      .join(" ");
+  }
+
+  /**
+   * Parse the `save` setting into save points; "" means RDB is off
+   */
+  private parseSavePoints(save: string): SavePoint[] {
+    const values = save.trim().split(/\s+/).filter(Boolean).map(Number);
+
+    const points: SavePoint[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      points.push({ seconds: values[i], changes: values[i + 1] });
+    }
+    return points;
+  }
+
+  async getCurrentConfig(
+    options: OperationOptions = {}
+  ): Promise<PersistenceConfig> {
+    return this.operations.read("getCurrentConfig", options, async () => {
+      try {
+        this.logger.debug(
+          "Fetching current persistence configuration",
+          "PersistenceManager"
+        );
+
+        if (!this.connections.isOpen()) {
+          throw new Error("Redis client is not connected");
+        }
+
+        // setPersistence keeps all masters alike, so the first one speaks for all
+        const [{ client }] = await this.connections.getMasters();
+        const [save, appendonly, appendfsync, preamble] = await Promise.all([
+          client.configGet("save"),
+          client.configGet("appendonly"),
+          client.configGet("appendfsync"),
+          client.configGet("aof-use-rdb-preamble"),
+        ]);
+
+        const config: PersistenceConfig = {
+          type: PersistenceType.NONE,
         };
+
+        const savePoints = this.parseSavePoints(save.save ?? "");
+        const aof = appendonly.appendonly === "yes";
+        // Snapshots next to an AOF without a preamble are not what HYBRID
+        // sets, so they are reported as AOF with rdbOptions
+        const hybrid = aof && preamble["aof-use-rdb-preamble"] === "yes";
+
+        if (savePoints.length > 0) {
+          config.type = hybrid
+            ? PersistenceType.HYBRID
+            : aof
+            ? PersistenceType.AOF
+            : PersistenceType.RDB;
+          // saveFrequency alone still describes a single "<seconds> 1" rule
+          const [first] = savePoints;
+          config.rdbOptions =
+            savePoints.length === 1 && first.changes === 1
+              ? { saveFrequency: first.seconds }
+              : { saveFrequency: first.seconds, savePoints };
+        } else if (aof) {
+          config.type = PersistenceType.AOF;
+        }
+
+        if (aof) {
+          config.aofOptions = {
+            appendfsync: appendfsync.appendfsync as any,
+          };
+        }
+
+        this.logger.info(
+          "Current persistence configuration retrieved",
+          "PersistenceManager",
+          {
+            config,
+          }
+        );
+
+        return config;
+      } catch (err: unknown) {
+        this.logger.error(
+          "Failed to get current persistence configuration",
+          "PersistenceManager",
+          {
+            error: this.formatError(err),
+          }
+        );
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "getCurrentConfig",
+            error: this.formatError(err),
+          },
+          ErrorCode.PERSISTENCE_OPERATION_ERROR
+        );
       }
+    });
+  }
 
-      this.logger.info(
-        "Current persistence configuration retrieved",
-        "PersistenceManager",
-        {
-          config,
+  /**
+   * Check the persistence status
+   *
+   * In cluster mode the status covers every master: work is in progress if
+   * it is on any master, and the last save and rewrite times are those of
+   * the master that has gone longest without one. `nodes` holds the status
+   * of each master.
+   * @param options - Timeout or AbortSignal for this call
+   */
+  async checkPersistenceStatus(
+    options: OperationOptions = {}
+  ): Promise<ClusterPersistenceStatus> {
+    return this.operations.read("checkPersistenceStatus", options, async () => {
+      try {
+        this.logger.debug("Checking persistence status", "PersistenceManager");
+
+        if (!this.connections.isOpen()) {
+          throw new Error("Redis client is not connected");
         }
-      );
 
-      return config;
-    } catch (err: unknown) {
-      this.logger.error(
-        "Failed to get current persistence configuration",
-        "PersistenceManager",
-        {
-          error: this.formatError(err),
+        const masters = await this.connections.getMasters();
+        const statuses = await Promise.all(
+          masters.map(async ({ client }) =>
+            this.parsePersistenceInfo(await client.info("persistence"))
+          )
+        );
+
+        const status: ClusterPersistenceStatus = {
+          rdbSaveInProgress: statuses.some((node) => node.rdbSaveInProgress),
+          aofRewriteInProgress: statuses.some(
+            (node) => node.aofRewriteInProgress
+          ),
+          lastRdbSaveTime: Math.min(
+            ...statuses.map((node) => node.lastRdbSaveTime)
+          ),
+          lastAofRewriteTime: Math.min(
+            ...statuses.map((node) => node.lastAofRewriteTime)
+          ),
+        };
+
+        if (this.connections.isCluster()) {
+          status.nodes = Object.fromEntries(
+            masters.map(({ address }, index) => [address, statuses[index]])
+          );
         }
-      );
 
-      throw ErrorRegistry.createError(ErrorCode.PERSISTENCE_OPERATION_ERROR, {
-        operation: "getCurrentConfig",
-        error: this.formatError(err),
+        this.logger.info(
+          "Persistence status retrieved",
+          "PersistenceManager",
+          status
+        );
+        return status;
+      } catch (err: unknown) {
+        this.logger.error(
+          "Failed to check persistence status",
+          "PersistenceManager",
+          {
+            error: this.formatError(err),
+          }
+        );
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "checkStatus",
+            error: this.formatError(err),
+          },
+          ErrorCode.PERSISTENCE_OPERATION_ERROR
+        );
+      }
+    });
+  }
+
+  /**
+   * Start a BGSAVE on every master and wait until all of them have
+   * written their RDB snapshot
+   *
+   * Rejects with PERSISTENCE_SAVE_ERROR when a save cannot start or ends
+   * with an error status, and with REDIS_TIMEOUT_ERROR when it outlasts
+   * `timeout`. The save itself carries on in Redis either way.
+   * @param options - Job timeout, AbortSignal, poll interval and progress callback
+   */
+  async snapshot(
+    options: BackgroundJobOptions = {}
+  ): Promise<BackgroundJobResult> {
+    return this.runBackgroundJob("snapshot", options);
+  }
+
+  /**
+   * Start a BGREWRITEAOF on every master and wait until all of them have
+   * rewritten their AOF, with the same outcomes as snapshot()
+   * @param options - Job timeout, AbortSignal, poll interval and progress callback
+   */
+  async rewriteAof(
+    options: BackgroundJobOptions = {}
+  ): Promise<BackgroundJobResult> {
+    return this.runBackgroundJob("rewriteAof", options);
+  }
+
+  private async runBackgroundJob(
+    job: BackgroundJob,
+    options: BackgroundJobOptions
+  ): Promise<BackgroundJobResult> {
+    const pollInterval = options.pollInterval ?? 1000;
+    if (!(pollInterval > 0 && pollInterval < Infinity)) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_PARAMETER, {
+        message: "Poll interval must be a positive number of milliseconds",
+        operation: job,
+        pollInterval,
       });
     }
-  }
 
-  async checkPersistenceStatus(): Promise<{
-    rdbSaveInProgress: boolean;
-    aofRewriteInProgress: boolean;
-    lastRdbSaveTime: number;
-    lastAofRewriteTime: number;
-  }> {
+    const startedAt = Date.now();
+    // Set once the caller has stopped waiting, e.g. after a timeout
+    let abandoned = false;
+
     try {
-      this.logger.debug("Checking persistence status", "PersistenceManager");
+      return await withTimeout(
+        job,
+        { timeout: options.timeout, signal: options.signal },
+        async () => {
+          if (!this.connections.isOpen()) {
+            throw new Error("Redis client is not connected");
+          }
 
-      if (!this.nativeClient.isOpen) {
-        throw new Error("Redis client is not connected");
-      }
+          // The job timeout covers the wait; single commands keep their own
+          const commandOptions = {
+            signal: options.signal,
+            retry: options.retry,
+          };
+          const masters = await this.connections.getMasters();
+          await this.operations.write(job, commandOptions, () =>
+            Promise.all(
+              masters.map(({ client }) =>
+                job === "snapshot" ? client.bgSave() : client.bgRewriteAof()
+              )
+            )
+          );
+          this.logger.info("Background job started", "PersistenceManager", {
+            job,
+            nodes: masters.length,
+          });
 
-      const info = await this.nativeClient.info("persistence");
-      const status = {
-        rdbSaveInProgress: false,
-        aofRewriteInProgress: false,
-        lastRdbSaveTime: 0,
-        lastAofRewriteTime: 0,
-      };
+          const pending = new Map(
+            masters.map(({ address, client }) => [address, client])
+          );
+          for (;;) {
+            for (const [address, client] of pending) {
+              const info = await this.operations.read(job, commandOptions, () =>
+                client.info("persistence")
+              );
+              const state = this.getJobState(job, info);
+              if (state === "failed") {
+                throw ErrorRegistry.createError(
+                  ErrorCode.PERSISTENCE_SAVE_ERROR,
+                  {
+                    message: `Background ${job} failed`,
+                    operation: job,
+                    address,
+                  }
+                );
+              }
+              if (state === "ok") {
+                pending.delete(address);
+              }
+            }
 
-      const lines = info.split("\n");
-      for (const line of lines) {
-        const [key, value] = line.split(":");
-        switch (key) {
-          case "rdb_bgsave_in_progress":
-            status.rdbSaveInProgress = value === "1";
-            break;
-          case "aof_rewrite_in_progress":
-            status.aofRewriteInProgress = value === "1";
-            break;
-          case "rdb_last_save_time":
-            status.lastRdbSaveTime = parseInt(value);
-            break;
-          case "aof_last_rewrite_time":
-            status.lastAofRewriteTime = parseInt(value);
-            break;
-        }
-      }
+            const progress = {
+              job,
+              elapsed: Date.now() - startedAt,
+              pending: [...pending.keys()],
+              completed: masters
+                .map(({ address }) => address)
+                .filter((address) => !pending.has(address)),
+            };
+            this.logger.debug(
+              "Background job progress",
+              "PersistenceManager",
+              progress
+            );
+            options.onProgress?.(progress);
 
-      this.logger.info(
-        "Persistence status retrieved",
-        "PersistenceManager",
-        status
+            if (pending.size === 0) {
+              break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+            if (abandoned) {
+              // The caller has already been rejected; stop polling quietly
+              throw new Error("Background job abandoned");
+            }
+          }
+
+          const result = {
+            job,
+            duration: Date.now() - startedAt,
+            nodes: masters.map(({ address }) => address),
+          };
+          this.logger.info(
+            "Background job completed",
+            "PersistenceManager",
+            result
+          );
+          return result;
+        }
       );
-      return status;
     } catch (err: unknown) {
-      this.logger.error(
-        "Failed to check persistence status",
-        "PersistenceManager",
+      this.logger.error("Background job failed", "PersistenceManager", {
+        job,
+        error: this.formatError(err),
+      });
+
+      if (err instanceof BaseError) {
+        throw err; // Already a custom error
+      }
+
+      throw this.errorHandler.handleError(
+        err,
         {
+          operation: job,
           error: this.formatError(err),
-        }
+        },
+        ErrorCode.PERSISTENCE_SAVE_ERROR
       );
+    } finally {
+      abandoned = true;
+    }
+  }
 
-      throw ErrorRegistry.createError(ErrorCode.PERSISTENCE_OPERATION_ERROR, {
-        operation: "checkStatus",
-        error: this.formatError(err),
+  /**
+   * Read the state of a background job from INFO persistence
+   */
+  private getJobState(
+    job: BackgroundJob,
+    info: string
+  ): "running" | "ok" | "failed" {
+    const health = parsePersistenceHealth(info);
+
+    const running =
+      job === "snapshot"
+        ? health.rdbSaveInProgress
+        : health.aofRewriteInProgress || health.aofRewriteScheduled;
+    if (running) {
+      return "running";
+    }
+
+    const status =
+      job === "snapshot"
+        ? health.rdbLastBgsaveStatus
+        : health.aofLastBgrewriteStatus;
+    return status === "ok" ? "ok" : "failed";
+  }
+
+  /**
+   * Build a health report of every master from INFO persistence and
+   * evaluate the health rules against it. Each failed rule is also
+   * emitted as an `alert` event.
+   * @param options - Timeout, AbortSignal, thresholds or custom rules
+   */
+  async getHealthReport(
+    options: HealthReportOptions = {}
+  ): Promise<PersistenceHealthReport> {
+    const { thresholds, rules, ...operationOptions } = options;
+
+    const report = await this.operations.read(
+      "getHealthReport",
+      operationOptions,
+      async () => {
+        try {
+          this.logger.debug(
+            "Building persistence health report",
+            "PersistenceManager"
+          );
+
+          if (!this.connections.isOpen()) {
+            throw new Error("Redis client is not connected");
+          }
+
+          const masters = await this.connections.getMasters();
+          const healths = await Promise.all(
+            masters.map(async ({ client }) =>
+              parsePersistenceHealth(await client.info("persistence"))
+            )
+          );
+          const nodes = Object.fromEntries(
+            masters.map(({ address }, index) => [address, healths[index]])
+          );
+
+          const checkedAt = Date.now();
+          const results = evaluateHealthRules(
+            nodes,
+            rules ?? createHealthRules(thresholds),
+            checkedAt
+          );
+          return {
+            severity: worstSeverity(results),
+            checkedAt,
+            nodes,
+            results,
+          };
+        } catch (err: unknown) {
+          this.logger.error(
+            "Failed to build persistence health report",
+            "PersistenceManager",
+            {
+              error: this.formatError(err),
+            }
+          );
+
+          throw this.errorHandler.handleError(
+            err,
+            {
+              operation: "getHealthReport",
+              error: this.formatError(err),
+            },
+            ErrorCode.PERSISTENCE_OPERATION_ERROR
+          );
+        }
+      }
+    );
+
+    for (const result of report.results.filter(({ passed }) => !passed)) {
+      this.logger.warn("Persistence health rule failed", "PersistenceManager", {
+        ...result,
       });
+      this.emit("alert", result);
+    }
+    return report;
+  }
+
+  private parsePersistenceInfo(info: string): PersistenceStatus {
+    const status = {
+      rdbSaveInProgress: false,
+      aofRewriteInProgress: false,
+      lastRdbSaveTime: 0,
+      lastAofRewriteTime: 0,
+    };
+
+    const lines = info.split("\n");
+    for (const line of lines) {
+      const [key, value] = line.split(":");
+      switch (key) {
+        case "rdb_bgsave_in_progress":
+          status.rdbSaveInProgress = value === "1";
+          break;
+        case "aof_rewrite_in_progress":
+          status.aofRewriteInProgress = value === "1";
+          break;
+        case "rdb_last_save_time":
+          status.lastRdbSaveTime = parseInt(value);
+          break;
+        case "aof_last_rewrite_time":
+          status.lastAofRewriteTime = parseInt(value);
+          break;
+      }
     }
+
+    return status;
   }
 
   async disconnect(): Promise<void> {
+    this.stopReconciler();
     try {
       this.logger.debug(
         "Disconnecting native Redis client",
         "PersistenceManager"
       );
 
-      if (this.nativeClient?.isOpen) {
-        await this.nativeClient.quit();
+      if (this.ownsConnections && this.connections.isOpen()) {
+        await this.connections.disconnect();
         this.logger.info(
           "Native Redis client disconnected successfully",
           "PersistenceManager"
@@ -369,14 +1132,18 @@ export class PersistenceManager {
       this.logger.error("Failed to disconnect", "PersistenceManager", {
         error: this.formatError(err),
       });
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        operation: "disconnect",
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation: "disconnect",
+          error: this.formatError(err),
+        },
+        ErrorCode.REDIS_CONNECTION_ERROR
+      );
     }
   }
 
   isConnected(): boolean {
-    return this.nativeClient?.isOpen ?? false;
+    return this.connections?.isOpen() ?? false;
   }
 }
@@ -0,0 +1,144 @@
+import { createClient } from "redis";
+import {
+  NodeAddress,
+  SentinelOptions,
+} from "../interfaces/connection.interface";
+import { ConsoleLogger, LogLevel } from "../logger";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+type NativeRedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Resolves the current master of a Sentinel-managed deployment and reports
+ * master switches announced by the sentinels.
+ */
+export class SentinelMonitor {
+  private subscriber?: NativeRedisClient;
+  private logger: ConsoleLogger;
+
+  /**
+   * Constructor for SentinelMonitor
+   * @param options - Sentinel addresses, master name, sentinel auth and TLS
+   */
+  constructor(private readonly options: SentinelOptions) {
+    this.logger = new ConsoleLogger(LogLevel.INFO);
+  }
+
+  /**
+   * Ask the sentinels, in order, for the current master address
+   * @throws REDIS_CONNECTION_ERROR if no sentinel knows the master
+   */
+  async discoverMaster(): Promise<NodeAddress> {
+    const failures: Record<string, any>[] = [];
+
+    for (const sentinel of this.options.sentinels) {
+      const client = this.createSentinelClient(sentinel, false);
+      try {
+        await client.connect();
+        const reply = (await client.sendCommand([
+          "SENTINEL",
+          "GET-MASTER-ADDR-BY-NAME",
+          this.options.masterName,
+        ])) as string[] | null;
+
+        if (reply) {
+          return { host: reply[0], port: Number(reply[1]) };
+        }
+        failures.push({ sentinel, message: "Unknown master name" });
+      } catch (err: unknown) {
+        failures.push({
+          sentinel,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      } finally {
+        if (client.isOpen) {
+          await client.disconnect();
+        }
+      }
+    }
+
+    this.logger.error("No sentinel returned a master", "SentinelMonitor", {
+      masterName: this.options.masterName,
+      failures,
+    });
+
+    throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
+      message: "Unable to discover master from sentinels",
+      masterName: this.options.masterName,
+      failures,
+    });
+  }
+
+  /**
+   * Subscribe to +switch-master on the first reachable sentinel
+   * @param onSwitch - Called with the new master address after a failover
+   */
+  async watch(onSwitch: (master: NodeAddress) => void): Promise<void> {
+    await this.stop();
+
+    for (const sentinel of this.options.sentinels) {
+      const subscriber = this.createSentinelClient(sentinel, true);
+      subscriber.on("error", (err: Error) => {
+        this.logger.warn("Sentinel subscriber error", "SentinelMonitor", {
+          sentinel,
+          error: err.message,
+        });
+      });
+
+      try {
+        await subscriber.connect();
+        // Payload: <master-name> <old-ip> <old-port> <new-ip> <new-port>
+        await subscriber.subscribe("+switch-master", (message: string) => {
+          const [name, , , host, port] = message.split(" ");
+          if (name === this.options.masterName) {
+            onSwitch({ host, port: Number(port) });
+          }
+        });
+        this.subscriber = subscriber;
+        return;
+      } catch (err: unknown) {
+        this.logger.warn("Failed to watch sentinel", "SentinelMonitor", {
+          sentinel,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        if (subscriber.isOpen) {
+          await subscriber.disconnect();
+        }
+      }
+    }
+
+    throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
+      message: "Unable to subscribe to any sentinel",
+      masterName: this.options.masterName,
+    });
+  }
+
+  /**
+   * Stop watching for master switches
+   */
+  async stop(): Promise<void> {
+    const subscriber = this.subscriber;
+    this.subscriber = undefined;
+
+    if (subscriber?.isOpen) {
+      await subscriber.disconnect();
+    }
+  }
+
+  private createSentinelClient(
+    sentinel: NodeAddress,
+    reconnect: boolean
+  ): NativeRedisClient {
+    return createClient({
+      username: this.options.username,
+      password: this.options.password,
+      socket: {
+        host: sentinel.host,
+        port: sentinel.port,
+        ...(this.options.tls && { tls: true as const, ...this.options.tls }),
+        // Lookups move on to the next sentinel instead of retrying
+        ...(!reconnect && { reconnectStrategy: false as const }),
+      },
+    });
+  }
+}
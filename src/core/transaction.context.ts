@@ -0,0 +1,236 @@
+import { Schema } from "redis-om";
+import { createClient } from "redis";
+import { EntityData } from "../interfaces/entity.interface";
+import { TransactionOperation } from "../interfaces/transaction.interface";
+import { EntitySerializer } from "../utils/entity.serializer";
+import { EntityHistory } from "./entity.history";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+type RedisMulti = ReturnType<ReturnType<typeof createClient>["multi"]>;
+
+/**
+ * Buffers entity operations until the owning TransactionManager commits
+ * them as a single MULTI/EXEC block.
+ */
+export class TransactionContext<T extends EntityData> {
+  private operations: TransactionOperation<T>[] = [];
+  private active: boolean = true;
+
+  /**
+   * Constructor for TransactionContext
+   * @param schema - The Redis-OM schema for entities
+   * @param getKey - Resolves the Redis key of an entity
+   * @param history - Optional history store that receives saved versions
+   */
+  constructor(
+    private readonly schema: Schema,
+    private readonly getKey: (entityId: string) => string,
+    private readonly history?: EntityHistory<T>
+  ) {}
+
+  /**
+   * Queue an entity save
+   *
+   * A later save of an entity already saved in this context builds on the
+   * queued version; only the first save checks the stored version.
+   * @param entity - The entity to save
+   * @returns The entity as it will be stored once committed
+   */
+  async save(entity: T): Promise<T> {
+    this.ensureActive();
+
+    const entityId = entity.entityId ?? (await this.schema.generateId());
+    const queued = this.findQueuedSave(entityId);
+    const prepared = {
+      ...entity,
+      entityId,
+      version: (queued?.version ?? entity.version ?? 0) + 1,
+      lastUpdated: new Date(),
+    } as T;
+
+    // Saving a known entity with a version guards against concurrent writes
+    const expectedVersion =
+      !queued && entity.entityId !== undefined ? entity.version : undefined;
+
+    this.operations.push({
+      type: "save",
+      entityId,
+      entity: prepared,
+      expectedVersion,
+    });
+    return prepared;
+  }
+
+  /**
+   * Queue an entity removal
+   * @param entityId - The ID of the entity to remove
+   */
+  remove(entityId: string): void {
+    this.ensureActive();
+    this.operations.push({ type: "remove", entityId });
+  }
+
+  /**
+   * Queue a partial update of an entity
+   * @param entityId - The ID of the entity to update
+   * @param changes - The fields to overwrite
+   */
+  patch(entityId: string, changes: Partial<T>): void {
+    this.ensureActive();
+
+    const { entityId: _ignored, version: _version, ...fields } = changes;
+    this.operations.push({
+      type: "patch",
+      entityId,
+      changes: { ...fields, lastUpdated: new Date() } as Partial<T>,
+    });
+  }
+
+  /**
+   * Get the operations buffered so far
+   */
+  getOperations(): ReadonlyArray<TransactionOperation<T>> {
+    return this.operations;
+  }
+
+  /**
+   * Get the stored versions the buffered saves expect, keyed by entity ID
+   */
+  getVersionExpectations(): Map<string, number> {
+    const expectations = new Map<string, number>();
+    this.operations.forEach((operation) => {
+      if (operation.expectedVersion !== undefined) {
+        expectations.set(operation.entityId, operation.expectedVersion);
+      }
+    });
+    return expectations;
+  }
+
+  /**
+   * Split the buffered operations into closed contexts, one per group, in
+   * the order the groups first appear
+   * @param groupOf - Resolves the group of an operation, e.g. its hash slot
+   */
+  partition(
+    groupOf: (operation: TransactionOperation<T>) => unknown
+  ): TransactionContext<T>[] {
+    const groups = new Map<unknown, TransactionContext<T>>();
+
+    this.operations.forEach((operation) => {
+      const group = groupOf(operation);
+      let context = groups.get(group);
+      if (!context) {
+        context = new TransactionContext<T>(
+          this.schema,
+          this.getKey,
+          this.history
+        );
+        groups.set(group, context);
+      }
+      context.operations.push(operation);
+    });
+
+    const contexts = [...groups.values()];
+    contexts.forEach((context) => context.close());
+    return contexts;
+  }
+
+  /**
+   * Check whether operations can still be queued
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Mark the context as finished; further operations are rejected
+   */
+  close(): void {
+    this.active = false;
+  }
+
+  /**
+   * Append the buffered operations to a MULTI block
+   * @param multi - The MULTI command chain to extend
+   * @returns Number of commands queued for each operation
+   */
+  queue(multi: RedisMulti): number[] {
+    return this.operations.map((operation) => {
+      const key = this.getKey(operation.entityId);
+
+      switch (operation.type) {
+        case "save":
+          return this.queueSave(multi, key, operation.entity as T);
+        case "patch":
+          return this.queuePatch(multi, key, operation.changes ?? {});
+        case "remove":
+          multi.unlink(key);
+          return 1;
+      }
+    });
+  }
+
+  private queueSave(multi: RedisMulti, key: string, entity: T): number {
+    const historyCommands = this.history?.isEnabled()
+      ? this.history.queueSnapshot(multi, entity)
+      : 0;
+
+    if (this.schema.dataStructure === "HASH") {
+      const hashData = EntitySerializer.toHash(this.schema, entity);
+      multi.unlink(key);
+      if (Object.keys(hashData).length === 0) {
+        return historyCommands + 1;
+      }
+      multi.hSet(key, hashData);
+      return historyCommands + 2;
+    }
+
+    multi.json.set(key, "$", EntitySerializer.toJson(this.schema, entity));
+    return historyCommands + 1;
+  }
+
+  private queuePatch(
+    multi: RedisMulti,
+    key: string,
+    changes: Partial<T>
+  ): number {
+    if (this.schema.dataStructure === "HASH") {
+      multi.hSet(key, EntitySerializer.toHash(this.schema, changes));
+      multi.hIncrBy(
+        key,
+        EntitySerializer.hashFieldFor(this.schema, "version"),
+        1
+      );
+      return 2;
+    }
+
+    const jsonData = EntitySerializer.toJson(this.schema, changes);
+    Object.entries(jsonData).forEach(([name, value]) => {
+      multi.json.set(key, `$.${name}`, value);
+    });
+    multi.json.numIncrBy(key, "$.version", 1);
+    return Object.keys(jsonData).length + 1;
+  }
+
+  /**
+   * Find the entity written by the last save of an entity queued so far
+   * @param entityId - The entity ID
+   */
+  private findQueuedSave(entityId: string): T | undefined {
+    for (let index = this.operations.length - 1; index >= 0; index--) {
+      const operation = this.operations[index];
+      if (operation.entityId === entityId && operation.type === "save") {
+        return operation.entity;
+      }
+    }
+    return undefined;
+  }
+
+  private ensureActive(): void {
+    if (!this.active) {
+      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
+        message: "Transaction context is no longer active",
+      });
+    }
+  }
+}
@@ -1,55 +1,137 @@
-import { Client, Schema, Repository } from "redis-om";
-import { createClient } from "redis";
+import { AsyncLocalStorage } from "async_hooks";
+import { Client, Schema } from "redis-om";
+import { createClient, MultiErrorReply, ErrorReply, WatchError } from "redis";
 import { ConsoleLogger, LogLevel } from "../logger";
 import { EntityData } from "../interfaces/entity.interface";
+import {
+  OperationOptions,
+  RetryStats,
+} from "../interfaces/connection.interface";
+import {
+  BulkItemResult,
+  BulkOptions,
+  TransactionOperation,
+  TransactionOperationResult,
+  TransactionManagerOptions,
+  TransactionResult,
+  TransactionRetryOptions,
+  TransactionRunResult,
+} from "../interfaces/transaction.interface";
+import { EntityVersionInfo } from "../interfaces/history.interface";
+import { KeyStrategy } from "../interfaces/key.interface";
+import { TransactionContext } from "./transaction.context";
+import { EntityHistory } from "./entity.history";
+import { DefaultKeyStrategy } from "./key.strategy";
+import { ConnectionProvider } from "./connection.provider";
+import { EntitySerializer } from "../utils/entity.serializer";
+import { hashSlot } from "../utils/hash.slot";
+import { validateRetryPolicy } from "../utils/retry";
+import { OperationRunner } from "../utils/operation.runner";
 import { BaseError } from "../errors/types/base.error";
-import { ErrorCode, ErrorRegistry, TransactionErrorHandler } from "../errors";
+import {
+  ErrorCode,
+  ErrorHandler,
+  ErrorRegistry,
+  TransactionErrorHandler,
+} from "../errors";
 
-// Extend the Redis client type to include transaction methods
-type ExtendedRedisClient = ReturnType<typeof createClient> & {
-  multi: () => ExtendedRedisClient;
-  exec: () => Promise<any[]>;
-  discard: () => Promise<void>;
-  keys: (pattern: string) => Promise<string[]>;
-  del: (keys: string[]) => Promise<number>;
-};
+type NativeRedisClient = ReturnType<typeof createClient>;
 
 export class TransactionManager<T extends EntityData> {
   // Private properties
-  private repository: Repository;
-  private nativeClient!: ExtendedRedisClient;
+  private connections: ConnectionProvider;
+  private ownsConnections: boolean;
   private schemaName: string;
   private client: Client;
   private schema: Schema;
-  private errorHandler: TransactionErrorHandler;
+  private errorHandler: ErrorHandler;
   private logger: ConsoleLogger;
-  private isTransactionActive: boolean = false;
+  private activeTransactions = new Set<TransactionContext<T>>();
+  private transactionScope = new AsyncLocalStorage<TransactionContext<T>>();
+  private history: EntityHistory<T>;
+  private keys: KeyStrategy;
+  private operations: OperationRunner;
 
   /**
    * Constructor for TransactionManager
    * @param schema - The Redis-OM schema for entities
    * @param client - The Redis-OM client
    * @param schemaName - Name of the schema/collection
-   * @param nativeClient - Optional native Redis client
+   * @param connection - Optional connection provider shared with other
+   * managers, or a native Redis client owned by this manager
+   * @param options - Optional features such as version history and a custom
+   * key layout
    */
   constructor(
     schema: Schema,
     client: Client,
     schemaName: string,
-    nativeClient?: ReturnType<typeof createClient>
+    connection?: ConnectionProvider | NativeRedisClient,
+    options: TransactionManagerOptions = {}
   ) {
     this.schema = schema;
     this.client = client;
-    this.repository = client.fetchRepository(schema);
     this.schemaName = schemaName;
-    this.errorHandler = new TransactionErrorHandler();
+    this.errorHandler = options.errorHandler ?? new TransactionErrorHandler();
     this.logger = new ConsoleLogger(LogLevel.INFO);
+    if (options.retry) {
+      validateRetryPolicy(options.retry);
+    }
+
+    // A shared provider is closed by its owner, not by this manager
+    this.ownsConnections = !(connection instanceof ConnectionProvider);
+    this.connections =
+      connection instanceof ConnectionProvider
+        ? connection
+        : ConnectionProvider.fromClient(
+            connection ||
+              createClient({
+                url: (this.client as any).url,
+              })
+          );
+    this.operations = new OperationRunner(
+      this.connections,
+      { commandTimeout: options.commandTimeout, retry: options.retry },
+      this.logger,
+      "TransactionManager"
+    );
+
+    // On a cluster, hash tags keep an entity and its history in one slot
+    this.keys =
+      options.keyStrategy ??
+      new DefaultKeyStrategy(schemaName, {
+        hashTags: this.connections.isCluster(),
+      });
+    this.history = new EntityHistory<T>(
+      schema,
+      options.history ?? { enabled: false },
+      (entityId) => this.keys.historyKey(entityId)
+    );
+  }
+
+  /**
+   * Connection for regular commands, resolved on every use so the provider
+   * can spread load and swap connections
+   */
+  private get nativeClient(): NativeRedisClient {
+    return this.connections.getClient();
+  }
 
-    // Use provided native client or create a new one
-    this.nativeClient = (nativeClient ||
-      createClient({
-        url: (this.client as any).url,
-      })) as ExtendedRedisClient;
+  /**
+   * Connection for reads: the primary inside a transaction, otherwise
+   * chosen by the provider's read policy and session
+   */
+  private get readClient(): NativeRedisClient {
+    return this.getCurrentTransaction()
+      ? this.nativeClient
+      : this.connections.getReadClient();
+  }
+
+  /**
+   * Get the retries made by this manager
+   */
+  getRetryStats(): RetryStats {
+    return this.operations.getRetryStats();
   }
 
   /**
@@ -70,256 +152,652 @@ export class TransactionManager<T extends EntityData> {
 
   /**
    * Save an entity to the repository
+   *
+   * When the entity carries both an entityId and a version, the write only
+   * succeeds if the stored version still matches; otherwise it fails with
+   * TRANSACTION_CONFLICT.
    * @param entity - The entity to save
+   * @param options - Timeout or AbortSignal for this call
    * @returns The saved entity
    */
-  async save(entity: T): Promise<T> {
-    try {
-      // Ensure client is connected
-      await this.ensureConnected();
-
-      this.logger.debug("Saving entity", "TransactionManager", { entity });
-
-      // Prepare entity with version and timestamp
-      const savedEntity = {
-        ...entity,
-        version: (entity.version || 0) + 1,
-        lastUpdated: new Date(),
-      };
-
-      // Save entity using repository
-      const result = await this.repository.save(savedEntity);
-
-      // Extract entityId
-      const entityId = Object.getOwnPropertySymbols(result).find(
-        (sym) => sym.description === "entityId"
-      );
+  async save(entity: T, options: OperationOptions = {}): Promise<T> {
+    return this.operations.write("save", options, async () => {
+      try {
+        // Ensure client is connected
+        this.ensureConnected();
 
-      if (entityId) {
-        const finalEntity = {
-          ...result,
-          entityId: (result as any)[entityId],
-        } as T;
+        this.logger.debug("Saving entity", "TransactionManager", { entity });
 
-        this.logger.info("Entity saved successfully", "TransactionManager", {
-          entityId: finalEntity.entityId,
+        return await this.saveInTransaction(entity);
+      } catch (err: unknown) {
+        this.logger.error("Failed to save entity", "TransactionManager", {
+          error: this.formatError(err),
+          entity,
         });
 
-        return finalEntity;
-      }
+        if (this.isConflictError(err)) {
+          throw err;
+        }
 
-      this.logger.warn(
-        "Entity saved but no entityId found",
-        "TransactionManager",
-        { result }
-      );
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "save",
+            error: this.formatError(err),
+            entity,
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
+      }
+    });
+  }
 
-      return result as T;
-    } catch (err: unknown) {
-      this.logger.error("Failed to save entity", "TransactionManager", {
-        error: this.formatError(err),
-        entity,
-      });
+  /**
+   * Save an entity through a single-operation transaction, which checks its
+   * version and records history when enabled
+   * @param entity - The entity to save
+   * @returns The saved entity
+   */
+  private async saveInTransaction(entity: T): Promise<T> {
+    const transaction = this.createTransactionContext();
+    const savedEntity = await transaction.save(entity);
+    transaction.close();
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
-        operation: "save",
-        error: this.formatError(err),
-        entity,
-      });
+    const result = await this.executeTransaction(transaction);
+    if (result.error) {
+      throw result.error;
     }
+
+    this.logger.info("Entity saved successfully", "TransactionManager", {
+      entityId: savedEntity.entityId,
+      version: savedEntity.version,
+    });
+
+    return savedEntity;
   }
 
   /**
    * Fetch an entity by its ID
+   *
+   * Outside a transaction the read may go to a replica that has not seen an
+   * earlier save yet; run both in runInSession to read your own writes.
    * @param entityId - The ID of the entity to fetch
+   * @param options - Timeout or AbortSignal for this call
    * @returns The fetched entity or null
    */
-  async fetch(entityId: string): Promise<T | null> {
-    try {
-      // Ensure client is connected
-      await this.ensureConnected();
+  async fetch(
+    entityId: string,
+    options: OperationOptions = {}
+  ): Promise<T | null> {
+    return this.operations.read("fetch", options, async () => {
+      try {
+        // Ensure client is connected
+        this.ensureConnected();
+
+        this.logger.debug("Fetching entity", "TransactionManager", {
+          entityId,
+        });
+
+        const entity = await this.readEntity(this.readClient, entityId);
 
-      this.logger.debug("Fetching entity", "TransactionManager", { entityId });
+        if (!entity) {
+          this.logger.warn("Entity not found", "TransactionManager", {
+            entityId,
+          });
 
-      // First, check if keys exist using native client
-      const keyPattern = `${this.schemaName}:${entityId}*`;
-      const keys = await this.nativeClient.keys(keyPattern);
+          throw ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+            entityId,
+          });
+        }
 
-      // If no keys exist, throw not found error
-      if (keys.length === 0) {
-        this.logger.warn("No keys found for entity", "TransactionManager", {
+        this.logger.info("Entity fetched successfully", "TransactionManager", {
           entityId,
         });
 
-        throw ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+        return entity;
+      } catch (err: unknown) {
+        this.logger.error("Failed to fetch entity", "TransactionManager", {
+          error: this.formatError(err),
           entityId,
         });
+
+        if (
+          err instanceof BaseError &&
+          err.code === ErrorCode.ENTITY_NOT_FOUND
+        ) {
+          throw err;
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "fetch",
+            error: this.formatError(err),
+            entityId,
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
       }
+    });
+  }
 
-      // Fetch entity using repository
-      const entity = await this.repository.fetch(entityId);
+  /**
+   * Remove an entity by its ID
+   * @param entityId - The ID of the entity to remove
+   * @param options - Timeout or AbortSignal for this call
+   */
+  async remove(
+    entityId: string,
+    options: OperationOptions = {}
+  ): Promise<void> {
+    return this.operations.write("remove", options, async () => {
+      try {
+        // Ensure client is connected
+        this.ensureConnected();
 
-      if (!entity) {
-        this.logger.warn("Entity not found", "TransactionManager", {
+        this.logger.debug("Removing entity", "TransactionManager", {
           entityId,
         });
 
-        throw ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+        // UNLINK reports whether the exact key existed
+        this.connections.markWritten();
+        const removed = await this.nativeClient.unlink(
+          this.keys.entityKey(entityId)
+        );
+
+        if (removed === 0) {
+          throw ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+            entityId,
+          });
+        }
+
+        this.logger.info("Entity removed successfully", "TransactionManager", {
           entityId,
         });
+      } catch (err: unknown) {
+        this.logger.error("Failed to remove entity", "TransactionManager", {
+          error: this.formatError(err),
+          entityId,
+        });
+
+        if (
+          err instanceof BaseError &&
+          err.code === ErrorCode.ENTITY_NOT_FOUND
+        ) {
+          throw err;
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "remove",
+            error: this.formatError(err),
+            entityId,
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
       }
+    });
+  }
+  /**
+   * Save many entities with pipelined commands
+   *
+   * By default every entity is saved independently and reported on its own;
+   * versioned entities are each checked and written under WATCH/MULTI, so a
+   * concurrent writer fails them with TRANSACTION_CONFLICT, and the others
+   * are pipelined. With
+   * `atomic` all saves go out in one MULTI/EXEC and versions are WATCHed,
+   * so a single conflict fails the whole call.
+   * @param entities - The entities to save
+   * @param options - Atomic mode and pipeline batch size
+   * @returns The outcome for each entity, in input order
+   */
+  async saveMany(
+    entities: T[],
+    options: BulkOptions = {}
+  ): Promise<TransactionResult<BulkItemResult<T>>> {
+    return this.operations.write("saveMany", options, async () => {
+      const { atomic = false, batchSize = 1000 } = options;
 
-      this.logger.info("Entity fetched successfully", "TransactionManager", {
-        entityId,
-      });
+      try {
+        // Ensure client is connected
+        this.ensureConnected();
 
-      return { ...entity, entityId } as T;
-    } catch (err: unknown) {
-      this.logger.error("Failed to fetch entity", "TransactionManager", {
-        error: this.formatError(err),
-        entityId,
-      });
+        this.logger.debug("Saving entities", "TransactionManager", {
+          count: entities.length,
+          atomic,
+        });
 
-      if (err instanceof BaseError && err.code === ErrorCode.ENTITY_NOT_FOUND) {
-        throw err;
-      }
+        let results: BulkItemResult<T>[];
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
-        operation: "fetch",
-        error: this.formatError(err),
-        entityId,
-      });
-    }
+        if (atomic) {
+          const transaction = this.createTransactionContext();
+          for (const entity of entities) {
+            await transaction.save(entity);
+          }
+          transaction.close();
+
+          const result = await this.executeTransaction(transaction);
+          results = result.results.map((operation) =>
+            this.toBulkItemResult(operation)
+          );
+        } else {
+          results = [];
+          for (let offset = 0; offset < entities.length; offset += batchSize) {
+            const batch = entities.slice(offset, offset + batchSize);
+            results.push(...(await this.saveBatch(batch)));
+          }
+        }
+
+        this.logger.info("Entities saved", "TransactionManager", {
+          count: entities.length,
+          failed: results.filter((result) => !result.success).length,
+        });
+
+        return this.toBulkResult(results);
+      } catch (err: unknown) {
+        this.logger.error("Failed to save entities", "TransactionManager", {
+          error: this.formatError(err),
+          count: entities.length,
+        });
+
+        if (this.isConflictError(err)) {
+          throw err;
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "saveMany",
+            error: this.formatError(err),
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
+      }
+    });
   }
 
   /**
-   * Remove an entity by its ID
-   * @param entityId - The ID of the entity to remove
+   * Fetch many entities with pipelined commands
+   * @param entityIds - The IDs of the entities to fetch
+   * @param options - Pipeline batch size
+   * @returns The entity or ENTITY_NOT_FOUND error for each ID, in input order
    */
-  async remove(entityId: string): Promise<void> {
-    try {
-      // Ensure client is connected
-      await this.ensureConnected();
+  async fetchMany(
+    entityIds: string[],
+    options: Pick<
+      BulkOptions,
+      "batchSize" | "timeout" | "signal" | "retry"
+    > = {}
+  ): Promise<TransactionResult<BulkItemResult<T>>> {
+    return this.operations.read("fetchMany", options, async () => {
+      const { batchSize = 1000 } = options;
 
-      this.logger.debug("Removing entity", "TransactionManager", { entityId });
+      try {
+        // Ensure client is connected
+        this.ensureConnected();
 
-      // Verify entity exists before removing
-      await this.fetch(entityId);
+        this.logger.debug("Fetching entities", "TransactionManager", {
+          count: entityIds.length,
+        });
 
-      // Remove entity using native client methods
-      const keyPattern = `${this.schemaName}:${entityId}*`;
+        const results: BulkItemResult<T>[] = [];
+        for (let offset = 0; offset < entityIds.length; offset += batchSize) {
+          const batch = entityIds.slice(offset, offset + batchSize);
+          results.push(...(await this.fetchBatch(batch)));
+        }
 
-      // Find and delete all keys matching the entity
-      const keys = await this.nativeClient.keys(keyPattern);
+        return this.toBulkResult(results);
+      } catch (err: unknown) {
+        this.logger.error("Failed to fetch entities", "TransactionManager", {
+          error: this.formatError(err),
+          count: entityIds.length,
+        });
 
-      if (keys.length > 0) {
-        await this.nativeClient.del(keys);
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "fetchMany",
+            error: this.formatError(err),
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
       }
+    });
+  }
+
+  /**
+   * Remove many entities with pipelined commands
+   * @param entityIds - The IDs of the entities to remove
+   * @param options - Atomic mode (one MULTI/EXEC) and pipeline batch size
+   * @returns The outcome for each ID, in input order
+   */
+  async removeMany(
+    entityIds: string[],
+    options: BulkOptions = {}
+  ): Promise<TransactionResult<BulkItemResult<T>>> {
+    return this.operations.write("removeMany", options, async () => {
+      const { atomic = false, batchSize = 1000 } = options;
 
-      // Additional removal using repository (best effort)
       try {
-        await this.repository.remove(entityId);
-      } catch (repoRemoveErr) {
-        this.logger.warn("Repository removal failed", "TransactionManager", {
-          entityId,
-          error: this.formatError(repoRemoveErr),
+        // Ensure client is connected
+        this.ensureConnected();
+
+        this.logger.debug("Removing entities", "TransactionManager", {
+          count: entityIds.length,
+          atomic,
         });
-      }
 
-      // Verify removal by checking keys
-      const remainingKeys = await this.nativeClient.keys(keyPattern);
-      if (remainingKeys.length > 0) {
-        throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
-          entityId,
-          message: "Failed to completely remove entity keys",
+        const size = atomic ? Math.max(entityIds.length, 1) : batchSize;
+        const results: BulkItemResult<T>[] = [];
+        for (let offset = 0; offset < entityIds.length; offset += size) {
+          const batch = entityIds.slice(offset, offset + size);
+          results.push(...(await this.removeBatch(batch, atomic)));
+        }
+
+        this.logger.info("Entities removed", "TransactionManager", {
+          count: entityIds.length,
+          failed: results.filter((result) => !result.success).length,
         });
+
+        return this.toBulkResult(results);
+      } catch (err: unknown) {
+        this.logger.error("Failed to remove entities", "TransactionManager", {
+          error: this.formatError(err),
+          count: entityIds.length,
+        });
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "removeMany",
+            error: this.formatError(err),
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
       }
+    });
+  }
 
-      this.logger.info("Entity removed successfully", "TransactionManager", {
-        entityId,
-      });
-    } catch (err: unknown) {
-      this.logger.error("Failed to remove entity", "TransactionManager", {
-        error: this.formatError(err),
-        entityId,
-      });
+  /**
+   * Iterate over the IDs of all stored entities using SCAN, so large
+   * keyspaces are walked incrementally instead of blocking Redis
+   * @param count - COUNT hint passed to each SCAN call
+   */
+  async *scanEntityIds(count: number = 1000): AsyncGenerator<string> {
+    this.ensureConnected();
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
-        operation: "remove",
-        error: this.formatError(err),
-        entityId,
+    // SCAN only covers one node, so a cluster is walked master by master
+    for (const { client } of await this.connections.getMasters()) {
+      const keys = client.scanIterator({
+        MATCH: this.keys.entityPattern(),
+        COUNT: count,
       });
+
+      for await (const key of keys) {
+        const entityId = this.keys.parseEntityId(key);
+        if (entityId !== null) {
+          yield entityId;
+        }
+      }
     }
   }
+
+  /**
+   * List the versions retained for an entity, oldest first
+   * @param entityId - The ID of the entity
+   * @param options - Timeout or AbortSignal for this call
+   * @returns Version numbers and the time each was saved
+   */
+  async listVersions(
+    entityId: string,
+    options: OperationOptions = {}
+  ): Promise<EntityVersionInfo[]> {
+    return this.operations.read("listVersions", options, async () => {
+      try {
+        this.ensureHistoryEnabled();
+        this.ensureConnected();
+
+        return await this.history.list(this.readClient, entityId);
+      } catch (err: unknown) {
+        this.logger.error(
+          "Failed to list entity versions",
+          "TransactionManager",
+          {
+            error: this.formatError(err),
+            entityId,
+          }
+        );
+
+        if (err instanceof BaseError) {
+          throw err;
+        }
+
+        throw this.errorHandler.handleError(
+          err,
+          {
+            operation: "listVersions",
+            error: this.formatError(err),
+            entityId,
+          },
+          ErrorCode.TRANSACTION_ERROR
+        );
+      }
+    });
+  }
+
+  /**
+   * Fetch an entity as it was at a given version
+   * @param entityId - The ID of the entity
+   * @param version - The version to fetch
+   * @param options - Timeout or AbortSignal for this call
+   * @returns The entity as saved at that version
+   */
+  async fetchVersion(
+    entityId: string,
+    version: number,
+    options: OperationOptions = {}
+  ): Promise<T> {
+    return this.operations.read("fetchVersion", options, async () => {
+      return this.readHistory("fetchVersion", entityId, { version }, () =>
+        this.history.fetch(this.readClient, entityId, version)
+      );
+    });
+  }
+
+  /**
+   * Fetch an entity as it was at a point in time
+   * @param entityId - The ID of the entity
+   * @param date - The point in time
+   * @param options - Timeout or AbortSignal for this call
+   * @returns The latest version saved at or before `date`
+   */
+  async fetchAsOf(
+    entityId: string,
+    date: Date,
+    options: OperationOptions = {}
+  ): Promise<T> {
+    return this.operations.read("fetchAsOf", options, async () => {
+      return this.readHistory("fetchAsOf", entityId, { date }, () =>
+        this.history.fetchAsOf(this.readClient, entityId, date)
+      );
+    });
+  }
+
+  /**
+   * Restore the content of an earlier version as a new version
+   * @param entityId - The ID of the entity
+   * @param version - The version whose content to restore
+   * @param options - Timeout or AbortSignal for this call
+   * @returns The entity as saved by the revert
+   */
+  async revertTo(
+    entityId: string,
+    version: number,
+    options: OperationOptions = {}
+  ): Promise<T> {
+    return this.operations.write("revertTo", options, async () => {
+      // Read from the primary so replica lag cannot cause a conflict
+      return this.connections.runInSession(async () => {
+        this.connections.markWritten();
+
+        const snapshot = await this.fetchVersion(entityId, version);
+        // A removed entity is restored as a new one, from version 0
+        const current = await this.fetch(entityId).catch((err: unknown) => {
+          if (
+            err instanceof BaseError &&
+            err.code === ErrorCode.ENTITY_NOT_FOUND
+          ) {
+            return undefined;
+          }
+          throw err;
+        });
+
+        this.logger.info("Reverting entity", "TransactionManager", {
+          entityId,
+          fromVersion: current?.version,
+          toVersion: version,
+        });
+
+        // Saving against the current version keeps the revert conflict-safe
+        return this.save({
+          ...snapshot,
+          entityId,
+          version: current?.version ?? 0,
+        });
+      });
+    });
+  }
+
   /**
    * Begin a new transaction
+   *
+   * Any number of transactions may be open on one manager at a time; pass
+   * the returned context to commitTransaction/rollbackTransaction when more
+   * than one is in flight.
+   * @returns A context whose operations are buffered until commit
    */
-  async beginTransaction(): Promise<void> {
+  async beginTransaction(): Promise<TransactionContext<T>> {
     try {
       // Ensure client is connected
-      await this.ensureConnected();
+      this.ensureConnected();
 
-      // Check if a transaction is already in progress
-      if (this.isTransactionActive) {
+      // Transactions do not nest within one async call chain
+      if (this.getCurrentTransaction()) {
         throw new Error("A transaction is already in progress");
       }
 
       this.logger.debug("Beginning transaction", "TransactionManager");
 
-      // Start a multi transaction
-      this.nativeClient.multi();
-      this.isTransactionActive = true;
+      const transaction = this.createTransactionContext();
+      this.activeTransactions.add(transaction);
 
-      this.logger.info("Transaction started", "TransactionManager");
+      this.logger.info("Transaction started", "TransactionManager", {
+        activeTransactions: this.activeTransactions.size,
+      });
+
+      return transaction;
     } catch (err: unknown) {
       this.logger.error("Failed to begin transaction", "TransactionManager", {
         error: this.formatError(err),
       });
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
-        operation: "begin",
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation: "begin",
+          error: this.formatError(err),
+        },
+        ErrorCode.TRANSACTION_ERROR
+      );
     }
   }
 
   /**
-   * Commit the current transaction
+   * Get the transaction bound to the current async call chain, if any
+   * @returns The context opened by an enclosing runInTransaction call
    */
-  async commitTransaction(): Promise<void> {
-    try {
-      // Ensure a transaction is active
-      this.validateActiveTransaction();
+  getCurrentTransaction(): TransactionContext<T> | undefined {
+    const transaction = this.transactionScope.getStore();
+    return transaction?.isActive() ? transaction : undefined;
+  }
 
-      this.logger.debug("Committing transaction", "TransactionManager");
+  /**
+   * Commit a transaction as a single MULTI/EXEC block
+   * @param context - The transaction to commit; defaults to the current one
+   * @param options - Timeout or AbortSignal for this call
+   * @returns The outcome of every buffered operation
+   */
+  async commitTransaction(
+    context?: TransactionContext<T>,
+    options: OperationOptions = {}
+  ): Promise<TransactionResult<TransactionOperationResult<T>>> {
+    // The context is released by the first attempt, so commits never retry
+    return this.operations.run(
+      "commitTransaction",
+      options,
+      false,
+      async () => {
+        try {
+          // Ensure a transaction is active
+          const transaction = this.resolveTransaction(context);
+          this.releaseTransaction(transaction);
 
-      await this.nativeClient.exec();
-      this.isTransactionActive = false;
+          this.logger.debug("Committing transaction", "TransactionManager", {
+            operations: transaction.getOperations().length,
+          });
 
-      this.logger.info("Transaction committed", "TransactionManager");
-    } catch (err: unknown) {
-      this.logger.error("Failed to commit transaction", "TransactionManager", {
-        error: this.formatError(err),
-      });
+          const result = await this.executeTransaction(transaction);
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_COMMIT_ERROR, {
-        error: this.formatError(err),
-      });
-    }
+          if (result.error) {
+            this.logger.warn(
+              "Transaction committed with failed operations",
+              "TransactionManager",
+              { error: this.formatError(result.error) }
+            );
+          } else {
+            this.logger.info("Transaction committed", "TransactionManager");
+          }
+
+          return result;
+        } catch (err: unknown) {
+          this.logger.error(
+            "Failed to commit transaction",
+            "TransactionManager",
+            {
+              error: this.formatError(err),
+            }
+          );
+
+          if (this.isConflictError(err)) {
+            throw err;
+          }
+
+          throw this.errorHandler.handleError(
+            err,
+            {
+              error: this.formatError(err),
+            },
+            ErrorCode.TRANSACTION_COMMIT_ERROR
+          );
+        }
+      }
+    );
   }
 
   /**
-   * Rollback the current transaction
+   * Rollback a transaction, discarding its buffered operations
+   * @param context - The transaction to roll back; defaults to the current one
    */
-  async rollbackTransaction(): Promise<void> {
+  async rollbackTransaction(context?: TransactionContext<T>): Promise<void> {
     try {
       // Ensure a transaction is active
-      this.validateActiveTransaction();
+      const transaction = this.resolveTransaction(context);
 
       this.logger.debug("Rolling back transaction", "TransactionManager");
 
-      await this.nativeClient.discard();
-      this.isTransactionActive = false;
+      // Nothing reaches Redis before commit, so dropping the buffer is enough
+      this.releaseTransaction(transaction);
 
       this.logger.info("Transaction rolled back", "TransactionManager");
     } catch (err: unknown) {
@@ -331,10 +809,653 @@ export class TransactionManager<T extends EntityData> {
         }
       );
 
-      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ROLLBACK_ERROR, {
+      throw this.errorHandler.handleError(
+        err,
+        {
+          error: this.formatError(err),
+        },
+        ErrorCode.TRANSACTION_ROLLBACK_ERROR
+      );
+    }
+  }
+
+  /**
+   * Run a callback inside a transaction and commit its operations
+   *
+   * The transaction is rolled back if the callback throws. When the commit
+   * fails with TRANSACTION_CONFLICT the whole callback is run again with a
+   * fresh context, up to `retries` times.
+   * @param callback - Queues operations on the provided context
+   * @param options - Retry count and backoff (base delay in ms or a function)
+   * @returns The callback's value together with the commit result
+   */
+  async runInTransaction<R>(
+    callback: (transaction: TransactionContext<T>) => Promise<R>,
+    options: TransactionRetryOptions = {}
+  ): Promise<TransactionRunResult<T, R>> {
+    const { retries = 3, backoff = 50 } = options;
+
+    for (let attempt = 1; ; attempt++) {
+      const transaction = await this.beginTransaction();
+
+      try {
+        // Bind the context to this call chain so nested code can find it
+        const value = await this.transactionScope.run(transaction, () =>
+          callback(transaction)
+        );
+        const result = await this.commitTransaction(transaction);
+        return { ...result, value, attempts: attempt };
+      } catch (err: unknown) {
+        if (transaction.isActive()) {
+          await this.rollbackTransaction(transaction);
+        }
+
+        if (!this.isConflictError(err) || attempt > retries) {
+          throw err;
+        }
+
+        const delay =
+          typeof backoff === "function"
+            ? backoff(attempt)
+            : backoff * 2 ** (attempt - 1);
+
+        this.logger.warn(
+          "Transaction conflict, retrying",
+          "TransactionManager",
+          { attempt, delay }
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Create a transaction context bound to this manager's schema
+   */
+  private createTransactionContext(): TransactionContext<T> {
+    return new TransactionContext<T>(
+      this.schema,
+      (entityId) => this.keys.entityKey(entityId),
+      this.history
+    );
+  }
+
+  /**
+   * Send the operations of a context as one MULTI/EXEC block, watching the
+   * keys of versioned saves so concurrent writers abort the EXEC
+   * @param transaction - The context to execute
+   * @returns The outcome of every buffered operation
+   * @throws TRANSACTION_CONFLICT if a watched entity changed
+   */
+  private async executeTransaction(
+    transaction: TransactionContext<T>
+  ): Promise<TransactionResult<TransactionOperationResult<T>>> {
+    this.connections.markWritten();
+    const result = await this.execWithVersionChecks(transaction);
+    await this.updateHistory(result);
+    return result;
+  }
+
+  /**
+   * Execute a context, watching the keys its versioned saves depend on
+   * @param transaction - The context to execute
+   */
+  private async execWithVersionChecks(
+    transaction: TransactionContext<T>
+  ): Promise<TransactionResult<TransactionOperationResult<T>>> {
+    const expectations = transaction.getVersionExpectations();
+    this.assertSingleSlot(
+      transaction.getOperations().map((operation) => operation.entityId)
+    );
+
+    if (expectations.size === 0) {
+      return this.execMulti(this.nativeClient, transaction);
+    }
+
+    try {
+      const keys = [...expectations.keys()].map((entityId) =>
+        this.keys.entityKey(entityId)
+      );
+      return await this.connections.runIsolated(keys[0], async (client) => {
+        await client.watch(keys);
+
+        for (const [entityId, expectedVersion] of expectations) {
+          const storedVersion = await this.readStoredVersion(
+            client,
+            this.keys.entityKey(entityId)
+          );
+
+          if (storedVersion !== expectedVersion) {
+            await client.unwatch();
+            throw ErrorRegistry.createError(ErrorCode.TRANSACTION_CONFLICT, {
+              entityId,
+              expectedVersion,
+              storedVersion,
+            });
+          }
+        }
+
+        return this.execMulti(client, transaction);
+      });
+    } catch (err: unknown) {
+      if (err instanceof WatchError) {
+        throw ErrorRegistry.createError(ErrorCode.TRANSACTION_CONFLICT, {
+          entityIds: [...expectations.keys()],
+          message: "A watched entity was modified before EXEC",
+        });
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Save one batch; versioned entities are saved one by one under WATCH,
+   * the others in a single pipeline
+   * @param entities - The entities in this batch
+   */
+  private async saveBatch(entities: T[]): Promise<BulkItemResult<T>[]> {
+    this.connections.markWritten();
+
+    const results: BulkItemResult<T>[] = new Array(entities.length);
+    const pending: number[] = [];
+    const transaction = this.createTransactionContext();
+
+    for (const [index, entity] of entities.entries()) {
+      if (entity.entityId !== undefined && entity.version !== undefined) {
+        results[index] = await this.saveVersioned(entity);
+        continue;
+      }
+
+      await transaction.save(entity);
+      pending.push(index);
+    }
+    transaction.close();
+
+    if (pending.length > 0) {
+      const executed = await this.execPipeline(transaction);
+      await this.updateHistory(executed);
+
+      executed.results.forEach((operation, position) => {
+        results[pending[position]] = this.toBulkItemResult(operation);
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Save a versioned entity as its own WATCH/MULTI transaction, so the
+   * version check and the write cannot be split by another writer
+   * @param entity - An entity with an entityId and version
+   * @returns Its outcome; a conflict is reported instead of thrown
+   */
+  private async saveVersioned(entity: T): Promise<BulkItemResult<T>> {
+    const transaction = this.createTransactionContext();
+    await transaction.save(entity);
+    transaction.close();
+
+    try {
+      const [operation] = (await this.executeTransaction(transaction)).results;
+      return this.toBulkItemResult(operation);
+    } catch (err: unknown) {
+      if (this.isConflictError(err)) {
+        return {
+          entityId: entity.entityId!,
+          success: false,
+          error: err as BaseError,
+        };
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Fetch one pipeline batch
+   * @param entityIds - The IDs in this batch
+   */
+  private async fetchBatch(entityIds: string[]): Promise<BulkItemResult<T>[]> {
+    // Concurrent commands are pipelined by the client
+    const entities = await Promise.all(
+      entityIds.map((entityId) => this.readEntity(this.readClient, entityId))
+    );
+
+    return entityIds.map((entityId, index) => {
+      const entity = entities[index];
+      if (!entity) {
+        return {
+          entityId,
+          success: false,
+          error: ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+            entityId,
+          }),
+        };
+      }
+
+      return { entityId, success: true, entity };
+    });
+  }
+
+  /**
+   * Remove one batch, pipelined or as a single MULTI/EXEC
+   * @param entityIds - The IDs in this batch
+   * @param atomic - Whether to wrap the batch in MULTI/EXEC
+   */
+  private async removeBatch(
+    entityIds: string[],
+    atomic: boolean
+  ): Promise<BulkItemResult<T>[]> {
+    this.connections.markWritten();
+    const replies = atomic
+      ? await this.unlinkAtomically(entityIds)
+      : await this.unlinkPipelined(entityIds);
+
+    return entityIds.map((entityId, index) => {
+      const reply = replies[index];
+      if (reply instanceof ErrorReply) {
+        return {
+          entityId,
+          success: false,
+          error: this.classifyReply(reply, entityId),
+        };
+      }
+      if (reply === 0) {
+        return {
+          entityId,
+          success: false,
+          error: ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+            entityId,
+          }),
+        };
+      }
+      return { entityId, success: true };
+    });
+  }
+
+  private async unlinkAtomically(entityIds: string[]): Promise<unknown[]> {
+    this.assertSingleSlot(entityIds);
+
+    const multi = this.nativeClient.multi();
+    entityIds.forEach((entityId) =>
+      multi.unlink(this.keys.entityKey(entityId))
+    );
+
+    try {
+      return await multi.exec();
+    } catch (err: unknown) {
+      if (!(err instanceof MultiErrorReply)) {
+        throw err;
+      }
+      return err.replies;
+    }
+  }
+
+  private async unlinkPipelined(entityIds: string[]): Promise<unknown[]> {
+    if (this.connections.isCluster()) {
+      // Each UNLINK is routed to its own slot; the client pipelines them
+      return Promise.all(
+        entityIds.map((entityId) =>
+          this.nativeClient
+            .unlink(this.keys.entityKey(entityId))
+            .catch((err: unknown) => {
+              if (!(err instanceof ErrorReply)) {
+                throw err;
+              }
+              return err;
+            })
+        )
+      );
+    }
+
+    const multi = this.nativeClient.multi();
+    entityIds.forEach((entityId) =>
+      multi.unlink(this.keys.entityKey(entityId))
+    );
+
+    try {
+      return await multi.execAsPipeline();
+    } catch (err: unknown) {
+      if (!(err instanceof MultiErrorReply)) {
+        throw err;
+      }
+      return err.replies;
+    }
+  }
+
+  /**
+   * Turn the error reply of one entity's commands into a classified error
+   */
+  private classifyReply(reply: ErrorReply, entityId: string): BaseError {
+    return this.errorHandler.handleError(
+      reply,
+      {
+        entityId,
+        error: this.formatError(reply),
+      },
+      ErrorCode.REDIS_OPERATION_ERROR
+    );
+  }
+
+  private toBulkItemResult(
+    operation: TransactionOperationResult<T>
+  ): BulkItemResult<T> {
+    return {
+      entityId: operation.entityId,
+      success: operation.success,
+      entity: operation.entity,
+      error: operation.error,
+    };
+  }
+
+  private toBulkResult(
+    results: BulkItemResult<T>[]
+  ): TransactionResult<BulkItemResult<T>> {
+    return {
+      success: results.every((result) => result.success),
+      results,
+    };
+  }
+
+  /**
+   * Record history for patched entities and apply retention; failures are
+   * logged since the entity writes themselves already succeeded
+   * @param result - The result of an executed transaction
+   */
+  private async updateHistory(
+    result: TransactionResult<TransactionOperationResult<T>>
+  ): Promise<void> {
+    if (!this.history.isEnabled()) {
+      return;
+    }
+
+    const written = result.results.filter(
+      (operation) => operation.success && operation.type !== "remove"
+    );
+
+    for (const operation of written) {
+      try {
+        if (operation.type === "patch") {
+          // Read back from the primary; a replica may not have the patch yet
+          const entity = await this.readEntity(
+            this.nativeClient,
+            operation.entityId
+          );
+          if (entity) {
+            await this.history.record(this.nativeClient, entity);
+          }
+        }
+        await this.history.trim(this.nativeClient, operation.entityId);
+      } catch (err: unknown) {
+        this.logger.warn(
+          "Failed to update entity history",
+          "TransactionManager",
+          {
+            entityId: operation.entityId,
+            error: this.formatError(err),
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a history lookup with the manager's error handling
+   * @param operation - Name of the public operation
+   * @param entityId - The ID of the entity
+   * @param details - Extra details for errors
+   * @param read - Performs the lookup
+   */
+  private async readHistory(
+    operation: string,
+    entityId: string,
+    details: Record<string, any>,
+    read: () => Promise<T | null>
+  ): Promise<T> {
+    try {
+      this.ensureHistoryEnabled();
+      this.ensureConnected();
+
+      const entity = await read();
+      if (!entity) {
+        throw ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND, {
+          entityId,
+          ...details,
+        });
+      }
+
+      return entity;
+    } catch (err: unknown) {
+      this.logger.error("Failed to read entity history", "TransactionManager", {
         error: this.formatError(err),
+        operation,
+        entityId,
       });
+
+      if (err instanceof BaseError) {
+        throw err;
+      }
+
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation,
+          error: this.formatError(err),
+          entityId,
+        },
+        ErrorCode.TRANSACTION_ERROR
+      );
+    }
+  }
+
+  /**
+   * Ensure history mode was enabled for this manager
+   * @throws INVALID_CONFIG if history is disabled
+   */
+  private ensureHistoryEnabled(): void {
+    if (!this.history.isEnabled()) {
+      throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+        message: "Entity history is not enabled for this manager",
+      });
+    }
+  }
+
+  /**
+   * Send the operations of a context as a pipeline without MULTI/EXEC; on a
+   * cluster one pipeline goes to each hash slot
+   * @param transaction - The context to execute
+   * @returns The outcome of every operation, in queue order
+   */
+  private async execPipeline(
+    transaction: TransactionContext<T>
+  ): Promise<TransactionResult<TransactionOperationResult<T>>> {
+    if (!this.connections.isCluster()) {
+      return this.execMulti(this.nativeClient, transaction, true);
+    }
+
+    const parts = transaction.partition((operation) =>
+      hashSlot(this.keys.entityKey(operation.entityId))
+    );
+    const executed = await Promise.all(
+      parts.map((part) => this.execMulti(this.nativeClient, part, true))
+    );
+
+    const byOperation = new Map<
+      TransactionOperation<T>,
+      TransactionOperationResult<T>
+    >();
+    parts.forEach((part, index) =>
+      part
+        .getOperations()
+        .forEach((operation, position) =>
+          byOperation.set(operation, executed[index].results[position])
+        )
+    );
+
+    return {
+      success: executed.every((result) => result.success),
+      results: transaction
+        .getOperations()
+        .map((operation) => byOperation.get(operation)!),
+      error: executed.find((result) => result.error)?.error,
+    };
+  }
+
+  /**
+   * Reject work a cluster cannot run atomically: MULTI/EXEC and WATCH only
+   * accept keys from a single hash slot
+   * @param entityIds - The entities the transaction touches
+   */
+  private assertSingleSlot(entityIds: string[]): void {
+    if (!this.connections.isCluster()) {
+      return;
+    }
+
+    const slots = new Set(
+      entityIds.map((entityId) => hashSlot(this.keys.entityKey(entityId)))
+    );
+    if (slots.size > 1) {
+      throw ErrorRegistry.createError(ErrorCode.TRANSACTION_ERROR, {
+        message:
+          "A cluster transaction can only touch entities in one hash slot",
+        entityIds,
+      });
+    }
+  }
+
+  /**
+   * Queue the operations of a context on a MULTI block and execute it
+   * @param client - The connection to send the block on
+   * @param transaction - The context to execute
+   * @param pipeline - Send the commands as a plain pipeline instead of MULTI
+   */
+  private async execMulti(
+    client: NativeRedisClient,
+    transaction: TransactionContext<T>,
+    pipeline: boolean = false
+  ): Promise<TransactionResult<TransactionOperationResult<T>>> {
+    const multi = client.multi();
+    const commandCounts = transaction.queue(multi);
+
+    // Runtime errors inside EXEC do not abort the other commands
+    let replies: unknown[];
+    let execError: Error | undefined;
+    try {
+      replies = pipeline ? await multi.execAsPipeline() : await multi.exec();
+    } catch (err: unknown) {
+      if (!(err instanceof MultiErrorReply)) {
+        throw err;
+      }
+      replies = err.replies;
+      execError = err;
+    }
+
+    return {
+      success: !execError,
+      results: this.mapOperationResults(
+        transaction.getOperations(),
+        commandCounts,
+        replies
+      ),
+      error: execError,
+    };
+  }
+
+  /**
+   * Read the version currently stored for an entity key
+   * @param client - The connection to read on
+   * @param key - The entity key
+   * @returns The stored version, 0 when the entity does not exist
+   */
+  private async readStoredVersion(
+    client: NativeRedisClient,
+    key: string
+  ): Promise<number> {
+    if (this.schema.dataStructure === "HASH") {
+      const version = await client.hGet(
+        key,
+        EntitySerializer.hashFieldFor(this.schema, "version")
+      );
+      return version ? Number(version) : 0;
+    }
+
+    const version = (await client.json.get(key, { path: "$.version" })) as
+      | number[]
+      | null;
+    return version?.[0] ?? 0;
+  }
+
+  /**
+   * Read an entity from its exact key
+   * @param client - The connection to read on
+   * @param entityId - The entity ID
+   * @returns The entity, or null when the key does not exist
+   */
+  private async readEntity(
+    client: NativeRedisClient,
+    entityId: string
+  ): Promise<T | null> {
+    const key = this.keys.entityKey(entityId);
+
+    if (this.schema.dataStructure === "HASH") {
+      const hashData = await client.hGetAll(key);
+      if (Object.keys(hashData).length === 0) {
+        return null;
+      }
+      return {
+        ...EntitySerializer.fromHash(this.schema, hashData),
+        entityId,
+      } as T;
+    }
+
+    const jsonData = (await client.json.get(key)) as Record<string, any> | null;
+    if (!jsonData) {
+      return null;
     }
+    return {
+      ...EntitySerializer.fromJson(this.schema, jsonData),
+      entityId,
+    } as T;
+  }
+
+  private isConflictError(err: unknown): boolean {
+    return (
+      err instanceof BaseError && err.code === ErrorCode.TRANSACTION_CONFLICT
+    );
+  }
+
+  /**
+   * Map EXEC replies back onto the operations that produced them
+   * @param operations - The committed operations
+   * @param commandCounts - Number of commands queued per operation
+   * @param replies - The raw EXEC replies
+   */
+  private mapOperationResults(
+    operations: ReadonlyArray<TransactionOperation<T>>,
+    commandCounts: number[],
+    replies: unknown[]
+  ): TransactionOperationResult<T>[] {
+    let offset = 0;
+
+    return operations.map((operation, index) => {
+      const operationReplies = replies.slice(
+        offset,
+        offset + commandCounts[index]
+      );
+      offset += commandCounts[index];
+
+      const reply = operationReplies.find(
+        (reply): reply is ErrorReply => reply instanceof ErrorReply
+      );
+
+      return {
+        type: operation.type,
+        entityId: operation.entityId,
+        success: !reply,
+        entity: operation.entity,
+        changes: operation.changes,
+        error: reply && this.classifyReply(reply, operation.entityId),
+      };
+    });
   }
 
   /**
@@ -347,14 +1468,14 @@ export class TransactionManager<T extends EntityData> {
         "TransactionManager"
       );
 
-      // Rollback any active transaction
-      if (this.isTransactionActive) {
-        await this.rollbackTransaction();
+      // Rollback any active transactions
+      for (const transaction of [...this.activeTransactions]) {
+        await this.rollbackTransaction(transaction);
       }
 
-      // Quit the native client
-      if (this.nativeClient?.isOpen) {
-        await this.nativeClient.quit();
+      // Quit the native client unless it is shared
+      if (this.ownsConnections && this.connections.isOpen()) {
+        await this.connections.disconnect();
         this.logger.info(
           "Transaction manager disconnected",
           "TransactionManager"
@@ -369,10 +1490,14 @@ export class TransactionManager<T extends EntityData> {
         }
       );
 
-      throw ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
-        operation: "disconnect",
-        error: this.formatError(err),
-      });
+      throw this.errorHandler.handleError(
+        err,
+        {
+          operation: "disconnect",
+          error: this.formatError(err),
+        },
+        ErrorCode.REDIS_CONNECTION_ERROR
+      );
     }
   }
 
@@ -382,11 +1507,12 @@ export class TransactionManager<T extends EntityData> {
    */
   async isConnected(): Promise<boolean> {
     try {
-      if (!this.nativeClient?.isOpen) {
+      if (!this.connections.isOpen()) {
         return false;
       }
 
-      await this.nativeClient.ping();
+      const masters = await this.connections.getMasters();
+      await Promise.all(masters.map(({ client }) => client.ping()));
       return true;
     } catch {
       return false;
@@ -394,23 +1520,59 @@ export class TransactionManager<T extends EntityData> {
   }
 
   /**
-   * Ensure the client is connected
-   * @throws Error if client is not connected
+   * Ensure the client is connected, without a round trip; failures of the
+   * command itself are left to the circuit breaker and retry policy
+   * @throws node-redis's own errors so they are classified alike: a closed
+   * client is not retried, one that is reconnecting is
    */
-  private async ensureConnected(): Promise<void> {
-    const isConnected = await this.isConnected();
-    if (!isConnected) {
-      throw new Error("Client is not connected");
+  private ensureConnected(): void {
+    if (!this.connections.isOpen()) {
+      throw new Error("The client is closed");
+    }
+    if (!this.connections.isReady()) {
+      throw new Error("The client is offline");
     }
   }
 
   /**
-   * Validate that a transaction is currently active
-   * @throws Error if no active transaction
+   * Resolve the transaction an operation applies to
+   * @param context - The explicitly passed transaction, if any
+   * @throws Error if no unambiguous active transaction exists
    */
-  private validateActiveTransaction(): void {
-    if (!this.isTransactionActive) {
+  private resolveTransaction(
+    context?: TransactionContext<T>
+  ): TransactionContext<T> {
+    if (context) {
+      if (!this.activeTransactions.has(context)) {
+        throw new Error("No active transaction to process");
+      }
+      return context;
+    }
+
+    const current = this.getCurrentTransaction();
+    if (current) {
+      return current;
+    }
+
+    if (this.activeTransactions.size > 1) {
+      throw new Error(
+        "Multiple transactions are active; pass the transaction context explicitly"
+      );
+    }
+
+    const [only] = this.activeTransactions;
+    if (!only) {
       throw new Error("No active transaction to process");
     }
+    return only;
+  }
+
+  /**
+   * Close a transaction and stop tracking it
+   * @param transaction - The transaction to release
+   */
+  private releaseTransaction(transaction: TransactionContext<T>): void {
+    transaction.close();
+    this.activeTransactions.delete(transaction);
   }
 }
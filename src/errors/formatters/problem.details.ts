@@ -0,0 +1,65 @@
+import { BaseError, ErrorSerializationOptions } from "../types/base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { ErrorRegistry } from "../registry/error.registry";
+
+export const PROBLEM_JSON_CONTENT_TYPE = "application/problem+json";
+
+// RFC 7807 members, plus the error code, retryability and details
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code: string;
+  retryable: boolean;
+  details?: Record<string, any>;
+}
+
+export interface ProblemDetailsOptions extends ErrorSerializationOptions {
+  typeBaseUri?: string; // the type becomes `${typeBaseUri}/${code}`
+  instance?: string; // URI of this occurrence, e.g. the request path
+}
+
+/**
+ * Render an error as an RFC 7807 problem+json body. Errors not raised by
+ * this library are reported as UNEXPECTED_ERROR; their own message is only
+ * used as the detail in verbose mode.
+ * @param error - The error to render
+ * @param options - Type URI base, instance and serialization mode
+ */
+export function toProblemDetails(
+  error: unknown,
+  options: ProblemDetailsOptions = {}
+): ProblemDetails {
+  const failure =
+    error instanceof BaseError
+      ? error
+      : ErrorRegistry.wrapError(error, ErrorCode.UNEXPECTED_ERROR);
+  const json = failure.toJSON({ verbose: options.verbose });
+
+  const title = Object.values(ErrorCode).includes(failure.code as ErrorCode)
+    ? ErrorRegistry.getErrorMessage(failure.code as ErrorCode)
+    : failure.message;
+  const detail =
+    typeof json.details?.message === "string"
+      ? json.details.message
+      : failure.message !== title
+      ? failure.message
+      : options.verbose && error !== failure && error instanceof Error
+      ? error.message
+      : undefined;
+
+  return {
+    type: options.typeBaseUri
+      ? `${options.typeBaseUri.replace(/\/+$/, "")}/${failure.code}`
+      : `urn:redis-enhanced:error:${failure.code}`,
+    title,
+    status: failure.statusCode,
+    ...(detail !== undefined && { detail }),
+    ...(options.instance !== undefined && { instance: options.instance }),
+    code: failure.code,
+    retryable: failure.retryable,
+    ...(json.details !== undefined && { details: json.details }),
+  };
+}
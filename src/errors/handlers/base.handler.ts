@@ -1,11 +1,37 @@
 import { BaseError } from "../types/base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { ErrorRegistry } from "../registry/error.registry";
 
+/**
+ * Turns an error caught inside an operation into the error the operation
+ * throws. Managers accept a custom handler, e.g. to report errors or to
+ * map them to application errors.
+ */
 export interface ErrorHandler {
-  handleError(error: Error | BaseError): void;
+  /**
+   * @param error - The caught error
+   * @param details - Details of the failed operation
+   * @param fallback - Code for errors that are not recognised
+   * @returns The error to throw
+   */
+  handleError(
+    error: unknown,
+    details?: Record<string, any>,
+    fallback?: ErrorCode
+  ): BaseError;
 }
 
 export abstract class BaseErrorHandler implements ErrorHandler {
-  abstract handleError(error: Error | BaseError): void;
+  // Code for unrecognised errors when the caller passes none
+  protected abstract readonly fallbackCode: ErrorCode;
+
+  handleError(
+    error: unknown,
+    details: Record<string, any> = {},
+    fallback: ErrorCode = this.fallbackCode
+  ): BaseError {
+    return ErrorRegistry.wrapError(error, fallback, details);
+  }
 
   protected formatError(error: Error | BaseError): Record<string, any> {
     if (error instanceof BaseError) {
@@ -15,6 +41,7 @@ export abstract class BaseErrorHandler implements ErrorHandler {
         code: error.code,
         statusCode: error.statusCode,
         details: error.details,
+        retryable: error.retryable,
         stack: error.stack,
       };
     }
@@ -1,14 +1,6 @@
-import {
-  RedisConnectionError,
-  RedisOperationError,
-} from "../types/redis.error";
 import { BaseErrorHandler } from "./base.handler";
+import { ErrorCode } from "../registry/error.codes";
 
 export class RedisErrorHandler extends BaseErrorHandler {
-  handleError(error: Error): void {
-    if (error.message.includes("connection")) {
-      throw new RedisConnectionError(error.message, { originalError: error });
-    }
-    throw new RedisOperationError(error.message, { originalError: error });
-  }
+  protected readonly fallbackCode = ErrorCode.REDIS_OPERATION_ERROR;
 }
@@ -3,6 +3,8 @@ export * from "./types//redis.error";
 export * from "./types//persistence.error";
 export * from "./types//transaction.error";
 export * from "./types//validation.error";
+export * from "./types/system.error";
+export * from "./formatters/problem.details";
 export * from "./handlers/base.handler";
 export * from "./handlers//redis.handler";
 export * from "./handlers//persistence.handler";
@@ -10,3 +12,4 @@ export * from "./handlers//transaction.handler";
 export * from "./registry/error.codes";
 export * from ".//registry/error.messages";
 export * from "./registry/error.registry";
+export * from "./registry/error.classifier";
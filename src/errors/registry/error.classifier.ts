@@ -0,0 +1,119 @@
+import { ErrorCode } from "./error.codes";
+import { BaseError } from "../types/base.error";
+
+export interface ErrorClassification {
+  code: ErrorCode;
+  retryable: boolean;
+}
+
+// Error replies are keyed by their first word, e.g. "WRONGTYPE Operation..."
+const REPLY_PREFIXES: Record<string, ErrorClassification> = {
+  NOAUTH: { code: ErrorCode.REDIS_AUTH_ERROR, retryable: false },
+  WRONGPASS: { code: ErrorCode.REDIS_AUTH_ERROR, retryable: false },
+  NOPERM: { code: ErrorCode.REDIS_AUTH_ERROR, retryable: false },
+  WRONGTYPE: { code: ErrorCode.REDIS_WRONGTYPE_ERROR, retryable: false },
+  READONLY: { code: ErrorCode.REDIS_READONLY_ERROR, retryable: true },
+  LOADING: { code: ErrorCode.REDIS_LOADING_ERROR, retryable: true },
+  OOM: { code: ErrorCode.REDIS_OOM_ERROR, retryable: false },
+  BUSY: { code: ErrorCode.REDIS_BUSY_ERROR, retryable: true },
+  EXECABORT: { code: ErrorCode.TRANSACTION_ABORTED, retryable: false },
+  MOVED: { code: ErrorCode.REDIS_CLUSTER_REDIRECT, retryable: true },
+  ASK: { code: ErrorCode.REDIS_CLUSTER_REDIRECT, retryable: true },
+};
+
+const SOCKET_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EAI_AGAIN",
+]);
+
+// node-redis connection errors carry no name or code, only these messages
+const CLIENT_ERROR_MESSAGES: Record<string, boolean> = {
+  "Socket closed unexpectedly": true,
+  "Connection timeout": true,
+  "The client is offline": true,
+  "All the root nodes are unavailable": true,
+  "The client is closed": false,
+  "Disconnects client": false,
+};
+
+const RETRYABLE_CODES = new Set<string>([
+  ErrorCode.REDIS_CONNECTION_ERROR,
+  ErrorCode.REDIS_TIMEOUT_ERROR,
+  ...Object.values(REPLY_PREFIXES)
+    .filter((classification) => classification.retryable)
+    .map((classification) => classification.code),
+]);
+
+/**
+ * Maps raw Redis and socket errors to error codes, and tells whether the
+ * failed operation may succeed when tried again.
+ */
+export class ErrorClassifier {
+  /**
+   * Classify an error
+   * @param error - A thrown error, error reply or BaseError
+   * @returns The code and retryability, or undefined if not recognised
+   */
+  static classify(error: unknown): ErrorClassification | undefined {
+    if (error instanceof BaseError) {
+      return { code: error.code as ErrorCode, retryable: error.retryable };
+    }
+    if (!(error instanceof Error)) {
+      return undefined;
+    }
+
+    // A failed MULTI or pipeline reports the replies of its failed commands
+    const { replies, errorIndexes } = error as Error & {
+      replies?: unknown[];
+      errorIndexes?: number[];
+    };
+    if (Array.isArray(replies) && Array.isArray(errorIndexes)) {
+      return this.classify(replies[errorIndexes[0]]);
+    }
+
+    // Reconnect strategy errors wrap the socket error that caused them
+    const { socketError } = error as Error & { socketError?: unknown };
+    if (socketError) {
+      return this.classify(socketError);
+    }
+
+    const systemCode = (error as NodeJS.ErrnoException).code;
+    if (systemCode && SOCKET_ERROR_CODES.has(systemCode)) {
+      return { code: ErrorCode.REDIS_CONNECTION_ERROR, retryable: true };
+    }
+    if (error.message in CLIENT_ERROR_MESSAGES) {
+      return {
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: CLIENT_ERROR_MESSAGES[error.message],
+      };
+    }
+
+    const prefix = error.message.split(" ", 1)[0];
+    return Object.prototype.hasOwnProperty.call(REPLY_PREFIXES, prefix)
+      ? REPLY_PREFIXES[prefix]
+      : undefined;
+  }
+
+  /**
+   * Check whether the operation that failed with an error may be retried
+   * @param error - The error
+   */
+  static isRetryable(error: unknown): boolean {
+    return this.classify(error)?.retryable ?? false;
+  }
+
+  /**
+   * Check whether errors with a code are transient by nature
+   * @param code - The error code
+   */
+  static isRetryableCode(code: ErrorCode): boolean {
+    return RETRYABLE_CODES.has(code);
+  }
+}
@@ -4,6 +4,13 @@ export enum ErrorCode {
   REDIS_OPERATION_ERROR = "1002",
   REDIS_AUTH_ERROR = "1003",
   REDIS_TIMEOUT_ERROR = "1004",
+  REDIS_READONLY_ERROR = "1005",
+  REDIS_LOADING_ERROR = "1006",
+  REDIS_OOM_ERROR = "1007",
+  REDIS_BUSY_ERROR = "1008",
+  REDIS_WRONGTYPE_ERROR = "1009",
+  REDIS_CLUSTER_REDIRECT = "1010",
+  CIRCUIT_OPEN = "1011",
 
   // Persistence errors (2xxx)
   PERSISTENCE_CONFIG_ERROR = "2001",
@@ -16,6 +23,8 @@ export enum ErrorCode {
   TRANSACTION_COMMIT_ERROR = "3002",
   TRANSACTION_ROLLBACK_ERROR = "3003",
   ENTITY_NOT_FOUND = "3004",
+  TRANSACTION_CONFLICT = "3005",
+  TRANSACTION_ABORTED = "3006",
 
   // Validation errors (4xxx)
   VALIDATION_ERROR = "4001",
@@ -5,6 +5,13 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.REDIS_OPERATION_ERROR]: "Redis operation failed",
   [ErrorCode.REDIS_AUTH_ERROR]: "Redis authentication failed",
   [ErrorCode.REDIS_TIMEOUT_ERROR]: "Redis operation timed out",
+  [ErrorCode.REDIS_READONLY_ERROR]: "Redis node is read-only",
+  [ErrorCode.REDIS_LOADING_ERROR]: "Redis is loading the dataset",
+  [ErrorCode.REDIS_OOM_ERROR]: "Redis is out of memory",
+  [ErrorCode.REDIS_BUSY_ERROR]: "Redis is busy running a script",
+  [ErrorCode.REDIS_WRONGTYPE_ERROR]: "Key holds the wrong kind of value",
+  [ErrorCode.REDIS_CLUSTER_REDIRECT]: "Key moved to another cluster node",
+  [ErrorCode.CIRCUIT_OPEN]: "Redis is unavailable; the circuit breaker is open",
 
   [ErrorCode.PERSISTENCE_CONFIG_ERROR]: "Invalid persistence configuration",
   [ErrorCode.PERSISTENCE_OPERATION_ERROR]: "Persistence operation failed",
@@ -15,6 +22,9 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.TRANSACTION_COMMIT_ERROR]: "Failed to commit transaction",
   [ErrorCode.TRANSACTION_ROLLBACK_ERROR]: "Failed to rollback transaction",
   [ErrorCode.ENTITY_NOT_FOUND]: "Entity not found",
+  [ErrorCode.TRANSACTION_CONFLICT]: "Entity was modified concurrently",
+  [ErrorCode.TRANSACTION_ABORTED]:
+    "Transaction was discarded because a queued command was rejected",
 
   [ErrorCode.VALIDATION_ERROR]: "Validation failed",
   [ErrorCode.INVALID_CONFIG]: "Invalid configuration",
@@ -1,30 +1,166 @@
 import { ErrorCode } from "./error.codes";
-import { BaseError } from "../types/base.error";
+import {
+  BaseError,
+  BaseErrorOptions,
+  SerializedError,
+  TypedErrorOptions,
+} from "../types/base.error";
+import {
+  RedisAuthError,
+  RedisConnectionError,
+  RedisOperationError,
+  RedisTimeoutError,
+} from "../types/redis.error";
+import {
+  PersistenceConfigError,
+  PersistenceOperationError,
+} from "../types/persistence.error";
+import {
+  EntityNotFoundError,
+  TransactionConflictError,
+  TransactionError,
+} from "../types/transaction.error";
+import { ValidationError } from "../types/validation.error";
+import { SystemError } from "../types/system.error";
 import { ErrorMessages } from "./error.messages";
+import { ErrorClassifier } from "./error.classifier";
+
+type TypedErrorClass = new (
+  message: string,
+  details?: any,
+  options?: TypedErrorOptions
+) => BaseError;
+
+// The class each code is raised as, so `instanceof` checks work
+const ErrorClasses: Record<ErrorCode, TypedErrorClass> = {
+  [ErrorCode.REDIS_CONNECTION_ERROR]: RedisConnectionError,
+  [ErrorCode.REDIS_OPERATION_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_AUTH_ERROR]: RedisAuthError,
+  [ErrorCode.REDIS_TIMEOUT_ERROR]: RedisTimeoutError,
+  [ErrorCode.REDIS_READONLY_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_LOADING_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_OOM_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_BUSY_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_WRONGTYPE_ERROR]: RedisOperationError,
+  [ErrorCode.REDIS_CLUSTER_REDIRECT]: RedisOperationError,
+  [ErrorCode.CIRCUIT_OPEN]: RedisConnectionError,
+
+  [ErrorCode.PERSISTENCE_CONFIG_ERROR]: PersistenceConfigError,
+  [ErrorCode.PERSISTENCE_OPERATION_ERROR]: PersistenceOperationError,
+  [ErrorCode.PERSISTENCE_SAVE_ERROR]: PersistenceOperationError,
+  [ErrorCode.PERSISTENCE_LOAD_ERROR]: PersistenceOperationError,
+
+  [ErrorCode.TRANSACTION_ERROR]: TransactionError,
+  [ErrorCode.TRANSACTION_COMMIT_ERROR]: TransactionError,
+  [ErrorCode.TRANSACTION_ROLLBACK_ERROR]: TransactionError,
+  [ErrorCode.ENTITY_NOT_FOUND]: EntityNotFoundError,
+  [ErrorCode.TRANSACTION_CONFLICT]: TransactionConflictError,
+  [ErrorCode.TRANSACTION_ABORTED]: TransactionError,
+
+  [ErrorCode.VALIDATION_ERROR]: ValidationError,
+  [ErrorCode.INVALID_CONFIG]: ValidationError,
+  [ErrorCode.INVALID_PARAMETER]: ValidationError,
+
+  [ErrorCode.SYSTEM_ERROR]: SystemError,
+  [ErrorCode.UNEXPECTED_ERROR]: SystemError,
+};
 
 export class ErrorRegistry {
   static getErrorMessage(code: ErrorCode): string {
     return ErrorMessages[code] || "Unknown error";
   }
 
-  static createError(code: ErrorCode, details?: any): BaseError {
-    const message = this.getErrorMessage(code);
-    return new BaseError(message, code, this.getStatusCode(code), details);
+  /**
+   * Create the typed error for a code
+   * @param code - The error code
+   * @param details - Error details
+   * @param options - The wrapped error, and retryability when it differs
+   * from what the code implies
+   */
+  static createError(
+    code: ErrorCode,
+    details?: any,
+    options: BaseErrorOptions = {}
+  ): BaseError {
+    const ErrorClass = ErrorClasses[code] ?? SystemError;
+    return new ErrorClass(this.getErrorMessage(code), details, {
+      code,
+      cause: options.cause,
+      retryable: options.retryable ?? ErrorClassifier.isRetryableCode(code),
+    });
+  }
+
+  /**
+   * Wrap a caught error, keeping it as the `cause`. Recognised Redis and
+   * socket errors get their own code; anything else, including errors
+   * already raised by this library, gets the fallback code and keeps its
+   * retryability.
+   * @param error - The caught error
+   * @param fallback - Code for errors that are not recognised
+   * @param details - Error details
+   */
+  static wrapError(
+    error: unknown,
+    fallback: ErrorCode,
+    details?: any
+  ): BaseError {
+    const classification = ErrorClassifier.classify(error);
+    const code =
+      classification && !(error instanceof BaseError)
+        ? classification.code
+        : fallback;
+
+    return this.createError(code, details, {
+      cause: error,
+      retryable: classification?.retryable ?? false,
+    });
+  }
+
+  /**
+   * Rebuild an error serialized with toJSON(), e.g. after it crossed a
+   * worker or queue boundary, as the subclass of its code
+   * @param json - The serialized error, as an object or a JSON string
+   */
+  static fromJSON(json: SerializedError | string): BaseError {
+    const data: SerializedError =
+      typeof json === "string" ? JSON.parse(json) : json;
+
+    const ErrorClass = ErrorClasses[data.code as ErrorCode];
+    const options = {
+      cause: data.cause && this.causeFromJSON(data.cause),
+      retryable: data.retryable ?? false,
+    };
+    const error = ErrorClass
+      ? new ErrorClass(data.message, data.details, {
+          ...options,
+          code: data.code as ErrorCode,
+        })
+      : new BaseError(
+          data.message,
+          data.code,
+          data.statusCode,
+          data.details,
+          options
+        );
+
+    if (data.stack) {
+      error.stack = data.stack;
+    }
+    return error;
   }
 
-  private static getStatusCode(code: ErrorCode): number {
-    const category = parseInt(code.charAt(0));
-    switch (category) {
-      case 1: // Redis errors
-      case 2: // Persistence errors
-      case 5: // System errors
-        return 500;
-      case 3: // Transaction errors
-        return code === ErrorCode.ENTITY_NOT_FOUND ? 404 : 500;
-      case 4: // Validation errors
-        return 400;
-      default:
-        return 500;
+  private static causeFromJSON(
+    cause: NonNullable<SerializedError["cause"]>
+  ): Error {
+    if ("code" in cause) {
+      return this.fromJSON(cause);
+    }
+
+    const error = new Error(cause.message);
+    error.name = cause.name;
+    if (cause.stack) {
+      error.stack = cause.stack;
     }
+    return error;
   }
 }
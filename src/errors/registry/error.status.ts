@@ -0,0 +1,23 @@
+import { ErrorCode } from "./error.codes";
+
+/**
+ * Get the HTTP status code that goes with an error code
+ * @param code - The error code
+ */
+export function getStatusCode(code: string): number {
+  const category = parseInt(code.charAt(0));
+  switch (category) {
+    case 1: // Redis errors
+    case 2: // Persistence errors
+    case 5: // System errors
+      return 500;
+    case 3: // Transaction errors
+      if (code === ErrorCode.ENTITY_NOT_FOUND) return 404;
+      if (code === ErrorCode.TRANSACTION_CONFLICT) return 409;
+      return 500;
+    case 4: // Validation errors
+      return 400;
+    default:
+      return 500;
+  }
+}
@@ -1,13 +1,17 @@
-import { BaseError } from "./base.error";
+import { BaseError, TypedErrorOptions } from "./base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { getStatusCode } from "../registry/error.status";
 
 export class PersistenceConfigError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "PERSISTENCE_CONFIG_ERROR", 400, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.PERSISTENCE_CONFIG_ERROR;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
 
 export class PersistenceOperationError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "PERSISTENCE_OPERATION_ERROR", 500, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.PERSISTENCE_OPERATION_ERROR;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
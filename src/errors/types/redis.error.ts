@@ -1,13 +1,31 @@
-import { BaseError } from "./base.error";
+import { BaseError, TypedErrorOptions } from "./base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { getStatusCode } from "../registry/error.status";
 
 export class RedisConnectionError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "REDIS_CONNECTION_ERROR", 500, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.REDIS_CONNECTION_ERROR;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
 
 export class RedisOperationError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "REDIS_OPERATION_ERROR", 500, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.REDIS_OPERATION_ERROR;
+    super(message, code, getStatusCode(code), details, options);
+  }
+}
+
+export class RedisAuthError extends BaseError {
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.REDIS_AUTH_ERROR;
+    super(message, code, getStatusCode(code), details, options);
+  }
+}
+
+export class RedisTimeoutError extends BaseError {
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.REDIS_TIMEOUT_ERROR;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
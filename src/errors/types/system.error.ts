@@ -0,0 +1,10 @@
+import { BaseError, TypedErrorOptions } from "./base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { getStatusCode } from "../registry/error.status";
+
+export class SystemError extends BaseError {
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.SYSTEM_ERROR;
+    super(message, code, getStatusCode(code), details, options);
+  }
+}
@@ -1,18 +1,26 @@
-import { BaseError } from "./base.error";
+import { BaseError, TypedErrorOptions } from "./base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { getStatusCode } from "../registry/error.status";
 
 export class TransactionError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "TRANSACTION_ERROR", 500, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.TRANSACTION_ERROR;
+    super(message, code, getStatusCode(code), details, options);
+  }
+}
+
+export class TransactionConflictError extends TransactionError {
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    super(message, details, {
+      ...options,
+      code: options.code ?? ErrorCode.TRANSACTION_CONFLICT,
+    });
   }
 }
 
 export class EntityNotFoundError extends BaseError {
-  constructor(entityId: string, details?: any) {
-    super(
-      `Entity with id ${entityId} not found`,
-      "ENTITY_NOT_FOUND",
-      404,
-      details
-    );
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.ENTITY_NOT_FOUND;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
@@ -1,7 +1,10 @@
-import { BaseError } from "./base.error";
+import { BaseError, TypedErrorOptions } from "./base.error";
+import { ErrorCode } from "../registry/error.codes";
+import { getStatusCode } from "../registry/error.status";
 
 export class ValidationError extends BaseError {
-  constructor(message: string, details?: any) {
-    super(message, "VALIDATION_ERROR", 400, details);
+  constructor(message: string, details?: any, options: TypedErrorOptions = {}) {
+    const code = options.code ?? ErrorCode.VALIDATION_ERROR;
+    super(message, code, getStatusCode(code), details, options);
   }
 }
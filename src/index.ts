@@ -1,8 +1,19 @@
 export * from "./core/client";
 export * from "./core/persistence";
 export * from "./core/transaction";
+export * from "./core/transaction.context";
+export * from "./core/entity.history";
+export * from "./core/key.strategy";
+export * from "./core/connection.provider";
+export * from "./core/sentinel.monitor";
+export * from "./core/cluster.provider";
+export * from "./core/circuit.breaker";
+export * from "./core/persistence.health";
 export * from "./interfaces/persistence.interface";
 export * from "./interfaces/transaction.interface";
+export * from "./interfaces/history.interface";
+export * from "./interfaces/key.interface";
+export * from "./interfaces/connection.interface";
 export * from "./model/base.model";
 import "dotenv/config";
 import { validateEnv } from "./utils/env.validator";
@@ -0,0 +1,112 @@
+import { ConnectionOptions } from "tls";
+
+export interface ReconnectOptions {
+  enabled?: boolean;
+  maxAttempts?: number;
+  initialDelay?: number; // ms
+  maxDelay?: number; // ms
+  jitter?: number; // fraction of the delay, 0-1
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  delay: number;
+  cause: Error;
+}
+
+export interface NodeAddress {
+  host: string;
+  port: number;
+}
+
+export interface FailoverEvent {
+  masterName: string;
+  previous?: NodeAddress;
+  current: NodeAddress;
+}
+
+export interface RedisClientEvents {
+  connect: () => void;
+  ready: () => void;
+  reconnecting: (event: ReconnectingEvent) => void;
+  error: (error: Error) => void;
+  end: () => void;
+  failover: (event: FailoverEvent) => void;
+  circuit: (event: CircuitStateChange) => void;
+}
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // consecutive failures that open it (default 5)
+  failureRateThreshold?: number; // failure share, 0-1, that opens it; off by default
+  windowSize?: number; // recent calls the failure rate covers (default 20)
+  minimumCalls?: number; // calls needed before the rate applies (default 10)
+  resetTimeout?: number; // ms open before the half-open probe (default 10000)
+}
+
+export interface ConnectionPoolOptions {
+  size?: number; // shared command connections
+  dedicated?: boolean; // separate connection for WATCH/MULTI work, used serially
+}
+
+export interface TlsOptions {
+  // File paths or PEM contents as buffers
+  ca?: string | Buffer | Array<string | Buffer>;
+  cert?: string | Buffer;
+  key?: string | Buffer;
+  servername?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export interface SentinelOptions {
+  sentinels: NodeAddress[];
+  masterName: string;
+  // Credentials of the sentinels themselves, if they require auth
+  username?: string;
+  password?: string;
+  // Resolved TLS socket options; the client fills them in from RedisConfig.tls
+  tls?: ConnectionOptions;
+}
+
+export interface ClusterOptions {
+  nodes: NodeAddress[]; // seed nodes used to discover the topology
+  maxRedirections?: number; // MOVED/ASK redirects followed per command
+}
+
+export type ReadPolicy = "primary" | "replicaPreferred" | "nearest";
+
+export interface ReplicaOptions {
+  endpoints: NodeAddress[];
+  // default "replicaPreferred"; reads only follow writes inside a session
+  readPolicy?: ReadPolicy;
+  latencyProbeInterval?: number; // ms between PINGs for "nearest"
+}
+
+export interface OperationOptions {
+  timeout?: number; // ms; overrides the configured commandTimeout, 0 for none
+  signal?: AbortSignal; // aborts the wait with REDIS_TIMEOUT_ERROR
+  retry?: boolean; // opt a write into the retry policy, or a read out of it
+}
+
+export interface RetryPolicy {
+  maxAttempts?: number; // including the first try (default 3)
+  initialDelay?: number; // ms, doubled per retry (default 50)
+  maxDelay?: number; // ms (default 2000)
+  jitter?: number; // fraction of the delay, 0-1 (default 0.2)
+  retryOn?: string[]; // error codes to retry; default: errors flagged retryable
+  retryWrites?: boolean; // retry writes without a per-call opt-in (default false)
+}
+
+export interface RetryStats {
+  retries: number; // attempts made after a failure
+  recovered: number; // operations that succeeded after retrying
+  exhausted: number; // operations that failed after their last attempt
+  byOperation: Record<string, number>; // retries per operation name
+}
@@ -0,0 +1,10 @@
+export interface HistoryOptions {
+  enabled: boolean;
+  maxVersions?: number;
+  maxAge?: number; // ms
+}
+
+export interface EntityVersionInfo {
+  version: number;
+  lastUpdated: Date;
+}
@@ -0,0 +1,15 @@
+export interface KeyStrategy {
+  /** Key holding the entity itself */
+  entityKey(entityId: string): string;
+  /** Key holding the version history of an entity */
+  historyKey(entityId: string): string;
+  /** SCAN MATCH pattern covering every entity key */
+  entityPattern(): string;
+  /** Entity ID stored under a key, or null if the key is not an entity key */
+  parseEntityId(key: string): string | null;
+}
+
+export interface KeyStrategyOptions {
+  /** Wrap entity IDs in `{}` so all keys of an entity share a cluster slot */
+  hashTags?: boolean;
+}
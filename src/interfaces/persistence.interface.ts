@@ -1,7 +1,11 @@
+import { OperationOptions, RetryPolicy } from "./connection.interface";
+import { BaseError, ErrorHandler } from "../errors";
+
 export enum PersistenceType {
   NONE = "NONE",
   RDB = "RDB",
   AOF = "AOF",
+  HYBRID = "HYBRID", // RDB snapshots plus an AOF with an RDB preamble
 }
 
 export enum AOFSyncOption {
@@ -10,8 +14,15 @@ export enum AOFSyncOption {
   NO = "no",
 }
 
+// Snapshot after `seconds` if at least `changes` keys changed
+export interface SavePoint {
+  seconds: number;
+  changes: number;
+}
+
 export interface RDBOptions {
-  saveFrequency: number;
+  saveFrequency?: number; // shorthand for a single { seconds, changes: 1 } point
+  savePoints?: SavePoint[]; // takes precedence over saveFrequency
 }
 
 export interface AOFOptions {
@@ -23,3 +34,131 @@ export interface PersistenceConfig {
   rdbOptions?: RDBOptions;
   aofOptions?: AOFOptions;
 }
+
+export interface PersistenceStatus {
+  rdbSaveInProgress: boolean;
+  aofRewriteInProgress: boolean;
+  lastRdbSaveTime: number;
+  lastAofRewriteTime: number;
+}
+
+// Everything INFO persistence says about one node's persistence health
+export interface PersistenceNodeHealth extends PersistenceStatus {
+  loading: boolean; // still loading the dataset from disk
+  aofEnabled: boolean;
+  aofRewriteScheduled: boolean;
+  rdbLastBgsaveStatus?: string; // "ok" or "err"
+  aofLastWriteStatus?: string;
+  aofLastBgrewriteStatus?: string;
+  rdbChangesSinceLastSave: number;
+  latestForkUsec: number;
+  aofBufferLength: number; // bytes waiting to be written to the AOF
+  aofRewriteBufferLength: number; // bytes buffered during an AOF rewrite
+}
+
+export type HealthSeverity = "ok" | "warning" | "critical";
+
+export interface HealthRule {
+  name: string;
+  severity: Exclude<HealthSeverity, "ok">; // reported when the rule fails
+  // Why the node fails the rule, or undefined when it passes
+  check: (health: PersistenceNodeHealth, now: number) => string | undefined;
+}
+
+export interface HealthRuleResult {
+  rule: string;
+  address: string;
+  passed: boolean;
+  severity: HealthSeverity; // "ok" when passed
+  message?: string;
+}
+
+export interface PersistenceHealthThresholds {
+  maxUnsavedAge?: number; // ms changes may go unsaved without AOF (default 15 min)
+  maxForkTime?: number; // ms the latest fork may take (default 1000)
+  maxAofBufferLength?: number; // bytes (default 32 MB)
+}
+
+export interface HealthReportOptions extends OperationOptions {
+  thresholds?: PersistenceHealthThresholds; // for the default rules
+  rules?: HealthRule[]; // replace the default rules
+}
+
+export interface PersistenceHealthReport {
+  severity: HealthSeverity; // of the worst failed rule
+  checkedAt: number; // ms since the epoch
+  nodes: Record<string, PersistenceNodeHealth>; // keyed by master address
+  results: HealthRuleResult[];
+}
+
+export interface ClusterPersistenceStatus extends PersistenceStatus {
+  // Status of each master, keyed by address; only reported in cluster mode
+  nodes?: Record<string, PersistenceStatus>;
+}
+
+export interface SetPersistenceOptions extends OperationOptions {
+  // Save the new settings to redis.conf with CONFIG REWRITE, so a restart keeps them
+  rewrite?: boolean;
+}
+
+// A CONFIG value setPersistence() would change on one master
+export interface PersistenceChange {
+  address: string;
+  key: string;
+  from?: string; // undefined when the server does not know the key
+  to: string;
+}
+
+export interface PersistencePlan {
+  config: PersistenceConfig;
+  changes: PersistenceChange[]; // empty when the servers already match
+}
+
+export interface ReconcileOptions extends OperationOptions {
+  reapply?: boolean; // re-apply the desired config when it drifted
+  rewrite?: boolean; // with reapply, also CONFIG REWRITE
+}
+
+export interface ReconcilerOptions extends ReconcileOptions {
+  interval?: number; // ms between checks; default 60000
+}
+
+export interface PersistenceDrift {
+  desired: PersistenceConfig;
+  changes: PersistenceChange[]; // what re-applying would change
+}
+
+export interface PersistenceManagerEvents {
+  drift: (event: PersistenceDrift) => void;
+  reconciled: (event: PersistenceDrift) => void; // desired config re-applied
+  reconcileError: (error: BaseError) => void;
+  alert: (alert: HealthRuleResult) => void; // a failed health rule
+}
+
+// BGSAVE or BGREWRITEAOF
+export type BackgroundJob = "snapshot" | "rewriteAof";
+
+export interface BackgroundJobProgress {
+  job: BackgroundJob;
+  elapsed: number; // ms since the job was started
+  pending: string[]; // masters still working
+  completed: string[]; // masters that finished successfully
+}
+
+export interface BackgroundJobOptions extends OperationOptions {
+  // timeout covers the whole job; commandTimeout still bounds each command
+  pollInterval?: number; // ms between status checks; default 1000
+  onProgress?: (progress: BackgroundJobProgress) => void;
+}
+
+export interface BackgroundJobResult {
+  job: BackgroundJob;
+  duration: number; // ms
+  nodes: string[]; // addresses of the masters that ran the job
+}
+
+export interface PersistenceManagerOptions {
+  commandTimeout?: number; // ms; default timeout of every operation
+  retry?: RetryPolicy; // config reads are retried; setPersistence is a write
+  errorHandler?: ErrorHandler; // builds the errors operations throw
+}
@@ -1,5 +1,65 @@
+import { HistoryOptions } from "./history.interface";
+import { KeyStrategy } from "./key.interface";
+import { OperationOptions, RetryPolicy } from "./connection.interface";
+import { ErrorHandler } from "../errors";
+
 export interface TransactionResult<T> {
   success: boolean;
   results: T[];
   error?: Error;
 }
+
+export type TransactionOperationType = "save" | "remove" | "patch";
+
+export interface TransactionOperation<T> {
+  type: TransactionOperationType;
+  entityId: string;
+  entity?: T;
+  changes?: Partial<T>;
+  expectedVersion?: number;
+}
+
+export interface TransactionOperationResult<T> {
+  type: TransactionOperationType;
+  entityId: string;
+  success: boolean;
+  entity?: T;
+  changes?: Partial<T>;
+  error?: Error;
+}
+
+export interface TransactionRetryOptions {
+  retries?: number;
+  backoff?: number | ((attempt: number) => number);
+}
+
+export interface TransactionRunResult<T, R>
+  extends TransactionResult<TransactionOperationResult<T>> {
+  value: R;
+  attempts: number;
+}
+
+export interface BulkOptions extends OperationOptions {
+  atomic?: boolean;
+  batchSize?: number;
+}
+
+export interface BulkItemResult<T> {
+  entityId: string;
+  success: boolean;
+  entity?: T;
+  error?: Error;
+}
+
+export interface TransactionManagerOptions {
+  history?: HistoryOptions;
+  keyStrategy?: KeyStrategy;
+  commandTimeout?: number; // ms; default timeout of every operation
+  retry?: RetryPolicy; // reads are retried; writes only when opted in
+  errorHandler?: ErrorHandler; // builds the errors operations throw
+}
+
+export interface ScopedTransactionManagerOptions
+  extends Omit<TransactionManagerOptions, "keyStrategy"> {
+  tenant?: string;
+}
@@ -0,0 +1,200 @@
+import { Schema } from "redis-om";
+import { EntityData } from "../interfaces/entity.interface";
+
+type SchemaField = NonNullable<ReturnType<Schema["fieldByName"]>>;
+
+/**
+ * Converts entities into the shape Redis-OM stores them in, so that commands
+ * queued by hand (e.g. inside MULTI) stay readable through a Repository.
+ */
+export class EntitySerializer {
+  /**
+   * Serialize an entity for a HASH based schema
+   * @param schema - The Redis-OM schema of the entity
+   * @param entity - The entity (or partial entity) to serialize
+   * @returns Flat record of hash fields and string values
+   */
+  static toHash(schema: Schema, entity: EntityData): Record<string, string> {
+    const hashData: Record<string, string> = {};
+
+    Object.entries(entity).forEach(([key, value]) => {
+      if (key === "entityId" || value === undefined || value === null) {
+        return;
+      }
+
+      const field = this.getField(schema, key);
+      if (field?.type === "string[]" && Array.isArray(value)) {
+        if (value.length > 0) {
+          hashData[field.hashField] = value.join(field.separator);
+        }
+        return;
+      }
+
+      hashData[field ? field.hashField : key] = this.toHashValue(value);
+    });
+
+    return hashData;
+  }
+
+  /**
+   * Serialize an entity for a JSON based schema
+   * @param schema - The Redis-OM schema of the entity
+   * @param entity - The entity (or partial entity) to serialize
+   * @returns JSON document ready for JSON.SET
+   */
+  static toJson(schema: Schema, entity: EntityData): Record<string, any> {
+    const jsonData: Record<string, any> = {};
+
+    Object.entries(entity).forEach(([key, value]) => {
+      if (key === "entityId" || value === undefined) {
+        return;
+      }
+
+      const field = this.getField(schema, key);
+      if (field && (field.type === "string" || field.type === "text")) {
+        jsonData[key] = value === null ? null : String(value);
+        return;
+      }
+
+      jsonData[key] = this.toJsonValue(value);
+    });
+
+    return jsonData;
+  }
+
+  /**
+   * Deserialize the fields of a HASH based entity
+   * @param schema - The Redis-OM schema of the entity
+   * @param hashData - The fields as returned by HGETALL
+   * @returns The entity properties, without entityId
+   */
+  static fromHash(
+    schema: Schema,
+    hashData: Record<string, string>
+  ): EntityData {
+    const entity: EntityData = { ...hashData };
+
+    schema.fields.forEach((field) => {
+      const value = hashData[field.hashField];
+      delete entity[field.hashField];
+
+      if (value !== undefined) {
+        entity[field.name] = this.fromHashValue(field, value);
+      } else if (field.type === "string[]") {
+        entity[field.name] = [];
+      }
+    });
+
+    return this.withMetadata(entity);
+  }
+
+  /**
+   * Deserialize a JSON based entity
+   * @param schema - The Redis-OM schema of the entity
+   * @param jsonData - The document as returned by JSON.GET
+   * @returns The entity properties, without entityId
+   */
+  static fromJson(schema: Schema, jsonData: Record<string, any>): EntityData {
+    const entity: EntityData = { ...jsonData };
+
+    schema.fields.forEach((field) => {
+      const value = entity[field.name];
+      if (value === undefined || value === null) {
+        return;
+      }
+      if (field.type === "date" && typeof value === "number") {
+        entity[field.name] = new Date(value * 1000);
+      } else if (field.type === "point" && typeof value === "string") {
+        entity[field.name] = this.toPoint(value);
+      }
+    });
+
+    return this.withMetadata(entity);
+  }
+
+  /**
+   * Resolve the hash field name used to store a property
+   * @param schema - The Redis-OM schema of the entity
+   * @param name - The property name
+   */
+  static hashFieldFor(schema: Schema, name: string): string {
+    return this.getField(schema, name)?.hashField ?? name;
+  }
+
+  private static getField(schema: Schema, name: string): SchemaField | null {
+    return schema.fields.find((field) => field.name === name) ?? null;
+  }
+
+  private static fromHashValue(field: SchemaField, value: string): any {
+    switch (field.type) {
+      case "boolean":
+        return value === "1";
+      case "number":
+        return Number.parseFloat(value);
+      case "date":
+        return new Date(Number.parseFloat(value) * 1000);
+      case "point":
+        return this.toPoint(value);
+      case "string[]":
+        return value.split(field.separator);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Normalize the version and lastUpdated properties added by the manager,
+   * which may not be declared on the schema
+   */
+  private static withMetadata(entity: EntityData): EntityData {
+    if (typeof entity.version === "string") {
+      entity.version = Number(entity.version);
+    }
+    const lastUpdated: unknown = entity.lastUpdated;
+    if (typeof lastUpdated === "string" || typeof lastUpdated === "number") {
+      entity.lastUpdated = new Date(Number(lastUpdated) * 1000);
+    }
+    return entity;
+  }
+
+  private static toPoint(value: string): {
+    longitude: number;
+    latitude: number;
+  } {
+    const [longitude, latitude] = value.split(",").map(Number);
+    return { longitude, latitude };
+  }
+
+  private static toHashValue(value: any): string {
+    if (typeof value === "boolean") {
+      return value ? "1" : "0";
+    }
+    if (value instanceof Date) {
+      return (value.getTime() / 1000).toString();
+    }
+    if (this.isPoint(value)) {
+      return `${value.longitude},${value.latitude}`;
+    }
+    return String(value);
+  }
+
+  private static toJsonValue(value: any): any {
+    if (value instanceof Date) {
+      return value.getTime() / 1000;
+    }
+    if (this.isPoint(value)) {
+      return `${value.longitude},${value.latitude}`;
+    }
+    return value;
+  }
+
+  private static isPoint(value: any): boolean {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      Object.keys(value).length === 2 &&
+      typeof value.longitude === "number" &&
+      typeof value.latitude === "number"
+    );
+  }
+}
@@ -0,0 +1,26 @@
+export const HASH_SLOTS = 16384;
+
+/**
+ * Compute the Redis Cluster hash slot of a key: CRC16 (XMODEM) of the key,
+ * or of its hash tag when the key contains a non-empty `{...}` section
+ * @param key - The Redis key
+ * @returns A slot between 0 and 16383
+ */
+export function hashSlot(key: string): number {
+  const open = key.indexOf("{");
+  if (open !== -1) {
+    const close = key.indexOf("}", open + 1);
+    if (close > open + 1) {
+      key = key.substring(open + 1, close);
+    }
+  }
+
+  let crc = 0;
+  for (const byte of Buffer.from(key)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc % HASH_SLOTS;
+}
@@ -0,0 +1,109 @@
+import {
+  OperationOptions,
+  RetryPolicy,
+  RetryStats,
+} from "../interfaces/connection.interface";
+import { ConnectionProvider } from "../core/connection.provider";
+import { Logger } from "../logger";
+import { withTimeout } from "./timeout";
+import { RetryCounter, withRetry } from "./retry";
+
+export interface OperationRunnerOptions {
+  commandTimeout?: number; // ms; default timeout of each attempt
+  retry?: RetryPolicy; // validated by the owner
+}
+
+/**
+ * Runs the public operations of one component through the circuit breaker,
+ * its timeout and its retry policy, counting the retries it makes
+ */
+export class OperationRunner {
+  private retries: RetryCounter;
+
+  /**
+   * Constructor for OperationRunner
+   * @param connections - Provider whose circuit breaker guards each attempt
+   * @param options - Default timeout and retry policy
+   * @param logger - Receives a warning per retry
+   * @param context - Component name for the log entries
+   */
+  constructor(
+    private readonly connections: ConnectionProvider,
+    private readonly options: OperationRunnerOptions,
+    logger: Logger,
+    context: string
+  ) {
+    this.retries = new RetryCounter(logger, context);
+  }
+
+  /**
+   * Run a read under its timeout; reads are retried whenever a retry
+   * policy is configured, unless the call opts out
+   */
+  read<R>(
+    operation: string,
+    options: OperationOptions,
+    run: (signal: AbortSignal) => Promise<R>
+  ): Promise<R> {
+    const retried = options.retry ?? this.options.retry !== undefined;
+    return this.run(operation, options, retried, run);
+  }
+
+  /**
+   * Run a write under its timeout; writes are only retried when the policy
+   * sets retryWrites or the call opts in
+   */
+  write<R>(
+    operation: string,
+    options: OperationOptions,
+    run: (signal: AbortSignal) => Promise<R>
+  ): Promise<R> {
+    const retried = options.retry ?? this.options.retry?.retryWrites === true;
+    return this.run(operation, options, retried, run);
+  }
+
+  /**
+   * Run an operation through the circuit breaker, failing with
+   * REDIS_TIMEOUT_ERROR when an attempt takes too long or the signal aborts
+   * @param operation - Operation name for error details and retry stats
+   * @param options - Per-call timeout and signal
+   * @param retried - Whether failed attempts are retried
+   * @param run - The operation; its signal aborts once the attempt is given
+   * up
+   */
+  run<R>(
+    operation: string,
+    options: OperationOptions,
+    retried: boolean,
+    run: (signal: AbortSignal) => Promise<R>
+  ): Promise<R> {
+    const attempt = () =>
+      this.connections.guard(operation, () =>
+        withTimeout(
+          operation,
+          {
+            timeout: options.timeout ?? this.options.commandTimeout,
+            signal: options.signal,
+          },
+          run
+        )
+      );
+
+    if (!retried) {
+      return attempt();
+    }
+    return withRetry(
+      operation,
+      this.options.retry ?? {},
+      attempt,
+      this.retries.hooks(options.signal)
+    );
+  }
+
+  /**
+   * Get the retries made through this runner
+   */
+  getRetryStats(): RetryStats {
+    return this.retries.snapshot();
+  }
+}
@@ -0,0 +1,64 @@
+import { ReconnectOptions } from "../interfaces/connection.interface";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+export const defaultReconnectOptions: Required<ReconnectOptions> = {
+  enabled: true,
+  maxAttempts: 10,
+  initialDelay: 100,
+  maxDelay: 5000,
+  jitter: 0.2,
+};
+
+/**
+ * Exponential backoff with jitter, capped at maxDelay
+ * @param retries - Number of retries made so far
+ * @param options - Base delay, cap and jitter
+ */
+export function computeBackoff(
+  retries: number,
+  options: { initialDelay: number; maxDelay: number; jitter: number }
+): number {
+  const { initialDelay, maxDelay, jitter } = options;
+  const backoff = Math.min(initialDelay * 2 ** retries, maxDelay);
+  const spread = backoff * jitter;
+  return Math.min(
+    Math.round(backoff - spread + Math.random() * 2 * spread),
+    maxDelay
+  );
+}
+
+/**
+ * Build a node-redis `reconnectStrategy` with exponential backoff and jitter
+ * @param options - Backoff settings, merged over the defaults
+ * @param onRetry - Called with the attempt number and delay before each retry
+ * @returns False when reconnection is disabled, otherwise the strategy
+ */
+export function createReconnectStrategy(
+  options: ReconnectOptions = {},
+  onRetry?: (attempt: number, delay: number, cause: Error) => void
+): false | ((retries: number, cause: Error) => number | Error) {
+  const { enabled, maxAttempts, initialDelay, maxDelay, jitter } = {
+    ...defaultReconnectOptions,
+    ...options,
+  };
+
+  if (!enabled) {
+    return false;
+  }
+
+  return (retries: number, cause: Error) => {
+    const attempt = retries + 1;
+    if (attempt > maxAttempts) {
+      return ErrorRegistry.createError(ErrorCode.REDIS_CONNECTION_ERROR, {
+        message: "Maximum reconnect attempts reached",
+        attempts: retries,
+        cause: cause?.message,
+      });
+    }
+
+    const delay = computeBackoff(retries, { initialDelay, maxDelay, jitter });
+
+    onRetry?.(attempt, delay, cause);
+    return delay;
+  };
+}
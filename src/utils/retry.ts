@@ -0,0 +1,194 @@
+import { RetryPolicy, RetryStats } from "../interfaces/connection.interface";
+import {
+  BaseError,
+  ErrorClassifier,
+  ErrorCode,
+  ErrorRegistry,
+} from "../errors";
+import { Logger } from "../logger";
+import { computeBackoff } from "./reconnect.strategy";
+
+export const defaultRetryPolicy: Required<Omit<RetryPolicy, "retryOn">> = {
+  maxAttempts: 3,
+  initialDelay: 50,
+  maxDelay: 2000,
+  jitter: 0.2,
+  retryWrites: false,
+};
+
+export interface RetryEvent {
+  operation: string;
+  attempt: number; // the attempt about to be made
+  delay: number; // ms
+  error: unknown;
+}
+
+export interface RetryHooks {
+  signal?: AbortSignal; // no further attempts once aborted
+  onRetry?: (event: RetryEvent) => void;
+  onSettled?: (operation: string, attempts: number, error?: unknown) => void;
+}
+
+/**
+ * Check a retry policy, throwing INVALID_CONFIG when a setting is out of
+ * range
+ * @param policy - The policy to check
+ */
+export function validateRetryPolicy(policy: RetryPolicy): void {
+  const { maxAttempts, initialDelay, maxDelay, jitter } = policy;
+  const invalid =
+    (maxAttempts !== undefined &&
+      !(Number.isInteger(maxAttempts) && maxAttempts >= 1)) ||
+    [initialDelay, maxDelay].some(
+      (value) => value !== undefined && !(value >= 0 && value < Infinity)
+    ) ||
+    (jitter !== undefined && !(jitter >= 0 && jitter <= 1));
+
+  if (invalid) {
+    throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+      message:
+        "retry needs maxAttempts >= 1, non-negative delays and jitter between 0 and 1",
+      retry: policy,
+    });
+  }
+}
+
+/**
+ * Run an operation, trying it again with backoff while it fails with an
+ * error the policy retries
+ * @param operation - Operation name reported to the hooks
+ * @param policy - Attempts, backoff and retryable codes
+ * @param run - The operation; called once per attempt
+ * @param hooks - Abort signal and retry callbacks
+ */
+export async function withRetry<R>(
+  operation: string,
+  policy: RetryPolicy,
+  run: () => Promise<R>,
+  hooks: RetryHooks = {}
+): Promise<R> {
+  const { maxAttempts, initialDelay, maxDelay, jitter } = {
+    ...defaultRetryPolicy,
+    ...policy,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await run();
+      hooks.onSettled?.(operation, attempt);
+      return result;
+    } catch (err: unknown) {
+      if (
+        attempt >= maxAttempts ||
+        hooks.signal?.aborted ||
+        !isRetried(err, policy.retryOn)
+      ) {
+        hooks.onSettled?.(operation, attempt, err);
+        throw err;
+      }
+
+      const delay = computeBackoff(attempt - 1, {
+        initialDelay,
+        maxDelay,
+        jitter,
+      });
+      hooks.onRetry?.({ operation, attempt: attempt + 1, delay, error: err });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function isRetried(error: unknown, retryOn?: string[]): boolean {
+  if (!retryOn) {
+    return ErrorClassifier.isRetryable(error);
+  }
+
+  const code =
+    error instanceof BaseError
+      ? error.code
+      : ErrorClassifier.classify(error)?.code;
+  return code !== undefined && retryOn.includes(code);
+}
+
+/**
+ * Logs and counts the retries of one component so they can be reported
+ */
+export class RetryCounter {
+  private stats: RetryStats = {
+    retries: 0,
+    recovered: 0,
+    exhausted: 0,
+    byOperation: {},
+  };
+
+  /**
+   * Constructor for RetryCounter
+   * @param logger - Receives a warning per retry
+   * @param context - Component name for the log entries
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly context: string
+  ) {}
+
+  /**
+   * Build the hooks that log and count the retries of one call
+   * @param signal - The call's abort signal
+   */
+  hooks(signal?: AbortSignal): RetryHooks {
+    return {
+      signal,
+      onRetry: (event) => {
+        this.recordRetry(event);
+        this.logger.warn("Retrying operation", this.context, {
+          operation: event.operation,
+          attempt: event.attempt,
+          delay: event.delay,
+          error: {
+            code:
+              event.error instanceof BaseError ? event.error.code : undefined,
+            message:
+              event.error instanceof Error
+                ? event.error.message
+                : String(event.error),
+          },
+        });
+      },
+      onSettled: (_operation, attempts, error) =>
+        this.recordSettled(attempts, error),
+    };
+  }
+
+  /**
+   * Record a retry about to be made
+   * @param event - The retry
+   */
+  recordRetry(event: RetryEvent): void {
+    this.stats.retries++;
+    this.stats.byOperation[event.operation] =
+      (this.stats.byOperation[event.operation] ?? 0) + 1;
+  }
+
+  /**
+   * Record the outcome of an operation
+   * @param attempts - Attempts made
+   * @param error - The final error, if the operation failed
+   */
+  recordSettled(attempts: number, error?: unknown): void {
+    if (attempts < 2) {
+      return;
+    }
+    if (error === undefined) {
+      this.stats.recovered++;
+    } else {
+      this.stats.exhausted++;
+    }
+  }
+
+  /**
+   * Get a copy of the counts
+   */
+  snapshot(): RetryStats {
+    return { ...this.stats, byOperation: { ...this.stats.byOperation } };
+  }
+}
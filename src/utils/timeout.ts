@@ -0,0 +1,76 @@
+import { OperationOptions } from "../interfaces/connection.interface";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+/**
+ * Run an operation, rejecting with REDIS_TIMEOUT_ERROR once it runs longer
+ * than the timeout or the signal aborts. Commands already sent to Redis are
+ * not cancelled; their replies are discarded.
+ * @param operation - Operation name reported in the error details
+ * @param options - Timeout in ms (0 or undefined for none) and AbortSignal
+ * @param run - The operation; its signal aborts, with the rejection as
+ * reason, once the wait is given up so it can stop sending commands
+ */
+export async function withTimeout<R>(
+  operation: string,
+  options: OperationOptions,
+  run: (signal: AbortSignal) => Promise<R>
+): Promise<R> {
+  const { timeout, signal } = options;
+
+  if (timeout !== undefined && !(timeout >= 0 && timeout < Infinity)) {
+    throw ErrorRegistry.createError(ErrorCode.INVALID_PARAMETER, {
+      message: "Timeout must be a non-negative number of milliseconds",
+      operation,
+      timeout,
+    });
+  }
+  const controller = new AbortController();
+  if (!timeout && !signal) {
+    return run(controller.signal);
+  }
+
+  const startedAt = Date.now();
+  const timedOut = (details: Record<string, any>) =>
+    ErrorRegistry.createError(ErrorCode.REDIS_TIMEOUT_ERROR, {
+      operation,
+      elapsed: Date.now() - startedAt,
+      ...details,
+    });
+  const aborted = () =>
+    timedOut({
+      aborted: true,
+      reason:
+        signal?.reason instanceof Error
+          ? signal.reason.message
+          : String(signal?.reason),
+    });
+
+  if (signal?.aborted) {
+    throw aborted();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    const expire = (error: Error) => {
+      controller.abort(error);
+      reject(error);
+    };
+    if (timeout) {
+      timer = setTimeout(() => expire(timedOut({ timeout })), timeout);
+    }
+    if (signal) {
+      onAbort = () => expire(aborted());
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), expired]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
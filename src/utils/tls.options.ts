@@ -0,0 +1,49 @@
+import { readFileSync } from "fs";
+import { ConnectionOptions } from "tls";
+import { TlsOptions } from "../interfaces/connection.interface";
+import { ErrorCode, ErrorRegistry } from "../errors";
+
+/**
+ * Turn TLS settings from RedisConfig into Node TLS connection options,
+ * reading certificates given as file paths
+ * @param options - The TLS settings
+ * @returns Options ready to be spread into a node-redis socket config
+ */
+export function resolveTlsOptions(options: TlsOptions): ConnectionOptions {
+  const { ca, cert, key, servername, rejectUnauthorized } = options;
+  const resolved: ConnectionOptions = {};
+
+  if (ca !== undefined) {
+    resolved.ca = Array.isArray(ca) ? ca.map(readPem) : readPem(ca);
+  }
+  if (cert !== undefined) {
+    resolved.cert = readPem(cert);
+  }
+  if (key !== undefined) {
+    resolved.key = readPem(key);
+  }
+  if (servername !== undefined) {
+    resolved.servername = servername;
+  }
+  if (rejectUnauthorized !== undefined) {
+    resolved.rejectUnauthorized = rejectUnauthorized;
+  }
+
+  return resolved;
+}
+
+function readPem(source: string | Buffer): Buffer {
+  if (Buffer.isBuffer(source)) {
+    return source;
+  }
+
+  try {
+    return readFileSync(source);
+  } catch (err: unknown) {
+    throw ErrorRegistry.createError(ErrorCode.INVALID_CONFIG, {
+      message: "Unable to read TLS file",
+      path: source,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
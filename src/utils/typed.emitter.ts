@@ -0,0 +1,37 @@
+import { EventEmitter } from "events";
+
+/**
+ * EventEmitter wrapper whose event names and listener signatures are
+ * checked against an event map.
+ */
+export class TypedEventEmitter<
+  Events extends { [E in keyof Events]: (...args: any[]) => void }
+> {
+  private emitter = new EventEmitter();
+
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  listenerCount<E extends keyof Events & string>(event: E): number {
+    return this.emitter.listenerCount(event);
+  }
+
+  protected emit<E extends keyof Events & string>(
+    event: E,
+    ...args: Parameters<Events[E]>
+  ): boolean {
+    return this.emitter.emit(event, ...args);
+  }
+}
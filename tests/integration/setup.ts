@@ -2,3 +2,6 @@ import "dotenv/config";
 import { ENV } from "../../src/config/env.config";
 
 export const TEST_REDIS_URL = `redis://${ENV.redis.username}:${ENV.redis.password}@${ENV.redis.host}:${ENV.redis.port}/${ENV.redis.db}`;
+
+// e.g. rediss://:123456@localhost:6390; TLS tests are skipped when unset
+export const TEST_REDIS_TLS_URL = process.env.REDIS_TLS_URL;
@@ -0,0 +1,59 @@
+import { join } from "path";
+import { EnhancedRedisClient } from "../../src/core/client";
+import { ErrorCode } from "../../src/errors";
+import { TEST_REDIS_TLS_URL } from "./setup";
+
+// Needs the redis-tls service from docker-compose.yml and the certificates
+// from tests/integration/tls/generate-certs.sh
+const describeTls = TEST_REDIS_TLS_URL ? describe : describe.skip;
+const certs = join(__dirname, "tls");
+
+describeTls("EnhancedRedisClient TLS Integration", () => {
+  let client: EnhancedRedisClient | undefined;
+
+  afterEach(async () => {
+    if (client?.getConnectionStatus()) {
+      await client.disconnect();
+    }
+    client = undefined;
+  });
+
+  it("should connect with a custom CA and client certificate", async () => {
+    client = new EnhancedRedisClient({
+      url: TEST_REDIS_TLS_URL!,
+      tls: {
+        ca: join(certs, "ca.crt"),
+        cert: join(certs, "client.crt"),
+        key: join(certs, "client.key"),
+        servername: "localhost",
+      },
+    });
+
+    await client.connect();
+
+    expect(await client.ping()).toBe(true);
+
+    // The transaction manager works over the same TLS connections
+    const manager = client.getTransactionManager();
+    const saved = await manager.save({ name: "tls" });
+    await expect(manager.fetch(saved.entityId!)).resolves.toMatchObject({
+      name: "tls",
+    });
+    await manager.remove(saved.entityId!);
+  }, 30000);
+
+  it("should refuse a server certificate from an unknown CA", async () => {
+    client = new EnhancedRedisClient({
+      url: TEST_REDIS_TLS_URL!,
+      reconnect: { enabled: false },
+      tls: {
+        cert: join(certs, "client.crt"),
+        key: join(certs, "client.key"),
+      },
+    });
+
+    await expect(client.connect()).rejects.toMatchObject({
+      code: ErrorCode.REDIS_CONNECTION_ERROR,
+    });
+  }, 30000);
+});
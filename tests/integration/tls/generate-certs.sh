@@ -0,0 +1,20 @@
+#!/bin/sh
+# Generates a throwaway CA plus server and client certificates for the
+# TLS integration tests. Output goes next to this script.
+set -e
+cd "$(dirname "$0")"
+
+openssl genrsa -out ca.key 2048
+openssl req -x509 -new -nodes -key ca.key -sha256 -days 365 \
+  -subj "/CN=redis-enhanced test CA" -out ca.crt
+
+for name in redis client; do
+  openssl genrsa -out "$name.key" 2048
+  openssl req -new -key "$name.key" -subj "/CN=$name" -out "$name.csr"
+  printf "subjectAltName=DNS:localhost,DNS:redis,IP:127.0.0.1\n" > "$name.ext"
+  openssl x509 -req -in "$name.csr" -CA ca.crt -CAkey ca.key -CAcreateserial \
+    -days 365 -sha256 -extfile "$name.ext" -out "$name.crt"
+  rm "$name.csr" "$name.ext"
+done
+
+chmod 644 *.key
@@ -142,6 +142,20 @@ describe("TransactionManager Integration", () => {
     expect(updatedEntity.entityId).toBe(savedEntity.entityId);
   }, 10000);
 
+  test("should reject a save based on a stale version", async () => {
+    const savedEntity = await manager.save({ name: "Versioned", value: 1 });
+
+    // First writer wins
+    await manager.save({ ...savedEntity, value: 2 });
+
+    // Second writer still holds version 1
+    await expect(
+      manager.save({ ...savedEntity, value: 3 })
+    ).rejects.toMatchObject({
+      code: ErrorCode.TRANSACTION_CONFLICT,
+    });
+  }, 10000);
+
   test("should remove an existing entity", async () => {
     // Prepare test entity
     const testEntity: TestEntity = {
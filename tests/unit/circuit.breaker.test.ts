@@ -0,0 +1,114 @@
+import { CircuitBreaker } from "../../src/core/circuit.breaker";
+import { ErrorCode, ErrorRegistry } from "../../src/errors";
+import { CircuitStateChange } from "../../src/interfaces/connection.interface";
+
+describe("CircuitBreaker", () => {
+  let probe: jest.Mock;
+  let changes: CircuitStateChange[];
+
+  const connectionLost = () =>
+    Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" });
+  const fail = (breaker: CircuitBreaker) =>
+    breaker
+      .execute("fetch", () => Promise.reject(connectionLost()))
+      .catch(() => undefined);
+  const createBreaker = (options = {}) =>
+    new CircuitBreaker(
+      { failureThreshold: 3, resetTimeout: 1000, ...options },
+      probe,
+      (event) => changes.push(event)
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    probe = jest.fn().mockResolvedValue(true);
+    changes = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should open after consecutive failures and fail fast", async () => {
+    const breaker = createBreaker();
+    const run = jest.fn().mockResolvedValue("OK");
+
+    for (let i = 0; i < 3; i++) {
+      await fail(breaker);
+    }
+
+    expect(breaker.getState()).toBe("open");
+    await expect(breaker.execute("fetch", run)).rejects.toMatchObject({
+      code: ErrorCode.CIRCUIT_OPEN,
+      details: { operation: "fetch", state: "open" },
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(changes).toEqual([
+      { from: "closed", to: "open", reason: "3 consecutive failures" },
+    ]);
+  });
+
+  it("should not count errors that are not retryable", async () => {
+    const breaker = createBreaker({ failureThreshold: 1 });
+
+    await breaker
+      .execute("fetch", () =>
+        Promise.reject(ErrorRegistry.createError(ErrorCode.ENTITY_NOT_FOUND))
+      )
+      .catch(() => undefined);
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should open when the failure rate crosses the threshold", async () => {
+    const breaker = createBreaker({
+      failureThreshold: 10,
+      failureRateThreshold: 0.5,
+      minimumCalls: 4,
+    });
+
+    await breaker.execute("fetch", async () => "OK");
+    await fail(breaker);
+    await breaker.execute("fetch", async () => "OK");
+    expect(breaker.getState()).toBe("closed");
+
+    await fail(breaker);
+
+    expect(breaker.getState()).toBe("open");
+    expect(changes[0].reason).toBe("Failure rate 50% over the last 4 calls");
+  });
+
+  it("should close after a successful half-open probe", async () => {
+    const breaker = createBreaker({ failureThreshold: 1 });
+    await fail(breaker);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe("closed");
+    expect(changes.map((change) => change.to)).toEqual([
+      "open",
+      "halfOpen",
+      "closed",
+    ]);
+  });
+
+  it("should open again when the probe fails", async () => {
+    probe.mockRejectedValueOnce(connectionLost()).mockResolvedValue(true);
+    const breaker = createBreaker({ failureThreshold: 1 });
+    await fail(breaker);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(breaker.getState()).toBe("open");
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(breaker.getState()).toBe("closed");
+    expect(probe).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject invalid options", () => {
+    expect(() =>
+      CircuitBreaker.validate({ failureRateThreshold: 1.5 })
+    ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+  });
+});
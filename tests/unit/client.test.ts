@@ -1,6 +1,11 @@
 import { EnhancedRedisClient } from "../../src/core/client";
 import { ErrorRegistry, ErrorCode, BaseError } from "../../src/errors";
 import { ConsoleLogger, LogLevel } from "../../src/logger";
+import { createReconnectStrategy } from "../../src/utils/reconnect.strategy";
+import { createClient } from "redis";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import * as dotenv from "dotenv";
 
 // Load environment variables
@@ -23,6 +28,7 @@ jest.mock("../../src/logger/providers/console.logger", () => {
 // Mock redis-om Client
 const mockRedisOmClient = {
   open: jest.fn(),
+  use: jest.fn(),
   close: jest.fn(),
   fetchRepository: jest.fn(),
   isOpen: true,
@@ -35,6 +41,9 @@ const mockRedisClient = {
   ping: jest.fn(),
   info: jest.fn(),
   flushDb: jest.fn(),
+  scanIterator: jest.fn(),
+  unlink: jest.fn(),
+  on: jest.fn(),
   configGet: jest.fn(),
   configSet: jest.fn(),
   isOpen: true,
@@ -65,6 +74,7 @@ describe("EnhancedRedisClient", () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockRedisOmClient.open.mockResolvedValue(undefined);
+    mockRedisOmClient.use.mockResolvedValue(mockRedisOmClient);
     mockRedisOmClient.close.mockResolvedValue(undefined);
     mockRedisClient.connect.mockResolvedValue(undefined);
     mockRedisClient.quit.mockResolvedValue(undefined);
@@ -100,7 +110,9 @@ describe("EnhancedRedisClient", () => {
     it("should connect successfully and log the connection", async () => {
       await client.connect();
 
-      expect(mockRedisOmClient.open).toHaveBeenCalled();
+      // Redis-OM reuses the shared connection instead of opening its own
+      expect(mockRedisOmClient.use).toHaveBeenCalledWith(mockRedisClient);
+      expect(mockRedisOmClient.open).not.toHaveBeenCalled();
       expect(client.getConnectionStatus()).toBe(true);
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Successfully connected to Redis",
@@ -110,7 +122,7 @@ describe("EnhancedRedisClient", () => {
 
     it("should handle connection errors properly", async () => {
       const connectionError = new Error("Connection failed");
-      mockRedisOmClient.open.mockRejectedValue(connectionError);
+      mockRedisOmClient.use.mockRejectedValue(connectionError);
 
       const expectedError = ErrorRegistry.createError(
         ErrorCode.REDIS_CONNECTION_ERROR,
@@ -120,7 +132,8 @@ describe("EnhancedRedisClient", () => {
             name: connectionError.name,
             stack: connectionError.stack,
           },
-        }
+        },
+        { cause: connectionError }
       );
 
       await expect(client.connect()).rejects.toThrow(expectedError);
@@ -159,7 +172,8 @@ describe("EnhancedRedisClient", () => {
             name: disconnectError.name,
             stack: disconnectError.stack,
           },
-        }
+        },
+        { cause: disconnectError }
       );
 
       await expect(client.disconnect()).rejects.toThrow(expectedError);
@@ -181,9 +195,8 @@ describe("EnhancedRedisClient", () => {
 
     it("should throw proper error when not connected", async () => {
       await expect(client.getServerInfo()).rejects.toMatchObject({
-        code: ErrorCode.REDIS_OPERATION_ERROR,
-        message: "Redis operation failed",
-        statusCode: 500,
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: false,
       });
     });
 
@@ -201,7 +214,8 @@ describe("EnhancedRedisClient", () => {
             name: infoError.name,
             stack: infoError.stack,
           },
-        }
+        },
+        { cause: infoError }
       );
 
       await expect(client.getServerInfo()).rejects.toThrow(expectedError);
@@ -247,7 +261,8 @@ describe("EnhancedRedisClient", () => {
             name: flushError.name,
             stack: flushError.stack,
           },
-        }
+        },
+        { cause: flushError }
       );
 
       await expect(client.flushDb()).rejects.toThrow(expectedError);
@@ -259,6 +274,483 @@ describe("EnhancedRedisClient", () => {
     });
   });
 
+  describe("shared connections", () => {
+    it("should open one pool connection and one dedicated connection", () => {
+      expect(createClient).toHaveBeenCalledTimes(2);
+    });
+
+    it("should size the pool from the config", () => {
+      jest.clearAllMocks();
+      new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        pool: { size: 3, dedicated: false },
+      });
+      expect(createClient).toHaveBeenCalledTimes(3);
+    });
+
+    it("should reject an invalid pool size", () => {
+      expect(
+        () => new EnhancedRedisClient({ ...TEST_CONFIG, pool: { size: 0 } })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+
+    it("should hand the shared provider to the persistence manager", async () => {
+      mockRedisClient.configGet.mockImplementation(async (name: string) => ({
+        [name]: "",
+      }));
+      await client.connect();
+
+      const provider = client.getConnectionProvider();
+      await client.getPersistenceManager().getCurrentConfig();
+
+      expect(provider.getConnections()).toHaveLength(2);
+      expect(mockRedisClient.configGet).toHaveBeenCalled();
+    });
+  });
+
+  describe("TLS", () => {
+    const lastSocketOptions = () =>
+      (createClient as jest.Mock).mock.calls.pop()[0].socket;
+
+    it("should enable TLS for rediss:// URLs", () => {
+      new EnhancedRedisClient({ url: "rediss://localhost:6390" });
+      expect(lastSocketOptions()).toMatchObject({ tls: true });
+    });
+
+    it("should not enable TLS for plain redis:// URLs", () => {
+      new EnhancedRedisClient({ url: "redis://localhost:6379" });
+      expect(lastSocketOptions().tls).toBeUndefined();
+    });
+
+    it("should read certificates from paths and pass buffers through", () => {
+      const dir = mkdtempSync(join(tmpdir(), "redis-tls-"));
+      writeFileSync(join(dir, "ca.crt"), "CA");
+      jest.clearAllMocks();
+
+      new EnhancedRedisClient({
+        url: "rediss://localhost:6390",
+        tls: {
+          ca: join(dir, "ca.crt"),
+          cert: Buffer.from("CERT"),
+          key: Buffer.from("KEY"),
+          servername: "redis.internal",
+          rejectUnauthorized: false,
+        },
+      });
+
+      // Every pooled connection gets the same TLS settings
+      const calls = (createClient as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(2);
+      calls.forEach(([options]) => {
+        expect(options.socket).toMatchObject({
+          tls: true,
+          ca: Buffer.from("CA"),
+          cert: Buffer.from("CERT"),
+          key: Buffer.from("KEY"),
+          servername: "redis.internal",
+          rejectUnauthorized: false,
+        });
+      });
+    });
+
+    it("should throw INVALID_CONFIG for an unreadable certificate", () => {
+      expect(
+        () =>
+          new EnhancedRedisClient({
+            url: "rediss://localhost:6390",
+            tls: { ca: "/does/not/exist.crt" },
+          })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+
+    it("should reject URLs with another scheme", () => {
+      expect(
+        () => new EnhancedRedisClient({ url: "http://localhost:6379" })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+  });
+
+  describe("read replicas", () => {
+    it("should open a connection per replica endpoint", () => {
+      jest.clearAllMocks();
+
+      new EnhancedRedisClient({
+        url: "redis://localhost:6379",
+        password: "secret",
+        replicas: {
+          endpoints: [
+            { host: "replica-1", port: 6379 },
+            { host: "replica-2", port: 6379 },
+          ],
+        },
+      });
+
+      const replicaOptions = (createClient as jest.Mock).mock.calls
+        .map(([options]) => options)
+        .filter((options) => options.socket.host?.startsWith("replica-"));
+      expect(replicaOptions).toHaveLength(2);
+      expect(replicaOptions[0]).toMatchObject({
+        password: "secret",
+        socket: { host: "replica-1", port: 6379 },
+      });
+    });
+
+    it("should reject an unknown read policy", () => {
+      expect(
+        () =>
+          new EnhancedRedisClient({
+            url: "redis://localhost:6379",
+            replicas: {
+              endpoints: [{ host: "replica-1", port: 6379 }],
+              readPolicy: "fastest" as any,
+            },
+          })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+
+    it("should reject replica endpoints in cluster mode", () => {
+      expect(
+        () =>
+          new EnhancedRedisClient({
+            cluster: { nodes: [{ host: "node-1", port: 6379 }] },
+            replicas: { endpoints: [{ host: "replica-1", port: 6379 }] },
+          })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+  });
+
+  describe("key namespaces", () => {
+    let namespaced: EnhancedRedisClient;
+
+    beforeEach(() => {
+      namespaced = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        keyPrefix: "billing",
+      });
+      mockRedisClient.scanIterator.mockImplementation(async function* () {
+        yield "billing:base:1";
+        yield "billing:acme:base:2";
+      });
+      mockRedisClient.unlink.mockResolvedValue(2);
+    });
+
+    it("should scope namespaces to the key prefix and tenant", () => {
+      expect(namespaced.getNamespace()).toBe("billing");
+      expect(namespaced.getNamespace("acme")).toBe("billing:acme");
+      expect(client.getNamespace("acme")).toBe("acme");
+      expect(() => namespaced.getNamespace("a:b")).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_CONFIG })
+      );
+    });
+
+    it("should reject an empty key prefix", () => {
+      expect(
+        () => new EnhancedRedisClient({ ...TEST_CONFIG, keyPrefix: "" })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+
+    it("should only flush the namespace when a key prefix is set", async () => {
+      await namespaced.connect();
+      await namespaced.flushDb();
+
+      expect(mockRedisClient.flushDb).not.toHaveBeenCalled();
+      expect(mockRedisClient.scanIterator).toHaveBeenCalledWith({
+        MATCH: "billing:*",
+        COUNT: 1000,
+      });
+      expect(mockRedisClient.unlink).toHaveBeenCalledWith([
+        "billing:base:1",
+        "billing:acme:base:2",
+      ]);
+    });
+
+    it("should flush a single tenant", async () => {
+      await namespaced.connect();
+      await namespaced.flushDb({ tenant: "acme" });
+
+      expect(mockRedisClient.scanIterator).toHaveBeenCalledWith({
+        MATCH: "billing:acme:*",
+        COUNT: 1000,
+      });
+    });
+
+    it("should flush the whole database when asked explicitly", async () => {
+      await namespaced.connect();
+      await namespaced.flushDb({ namespaceOnly: false });
+
+      expect(mockRedisClient.flushDb).toHaveBeenCalled();
+      expect(mockRedisClient.scanIterator).not.toHaveBeenCalled();
+    });
+
+    it("should require a namespace for a namespace-only flush", async () => {
+      await client.connect();
+
+      await expect(
+        client.flushDb({ namespaceOnly: true })
+      ).rejects.toMatchObject({ code: ErrorCode.REDIS_OPERATION_ERROR });
+      expect(mockRedisClient.flushDb).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("connection lifecycle", () => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+
+    beforeEach(() => {
+      mockRedisClient.on.mockImplementation((event, handler) => {
+        handlers[event] = handler;
+      });
+      client = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        reconnect: { maxAttempts: 3, jitter: 0 },
+      });
+    });
+
+    afterEach(() => {
+      mockRedisClient.isOpen = true;
+    });
+
+    it("should configure a reconnect strategy on the native client", () => {
+      const options = (createClient as jest.Mock).mock.calls.pop()[0];
+      expect(options.socket.reconnectStrategy).toEqual(expect.any(Function));
+    });
+
+    it("should track the connection state from native client events", async () => {
+      const events: string[] = [];
+      client.on("ready", () => events.push("ready"));
+      client.on("reconnecting", ({ attempt }) =>
+        events.push(`reconnecting:${attempt}`)
+      );
+      client.on("end", () => events.push("end"));
+
+      await client.connect();
+      const options = (createClient as jest.Mock).mock.calls.pop()[0];
+      options.socket.reconnectStrategy(0, new Error("socket closed"));
+      handlers.reconnecting();
+      expect(client.getConnectionStatus()).toBe(false);
+
+      handlers.ready();
+      expect(client.getConnectionStatus()).toBe(true);
+
+      handlers.end();
+      expect(client.getConnectionStatus()).toBe(false);
+      expect(events).toEqual(["reconnecting:1", "ready", "end"]);
+    });
+
+    it("should only emit errors when someone listens", async () => {
+      expect(() => handlers.error(new Error("boom"))).not.toThrow();
+
+      const listener = jest.fn();
+      client.on("error", listener);
+      handlers.error(new Error("boom"));
+
+      expect(listener).toHaveBeenCalledWith(new Error("boom"));
+    });
+
+    it("should report the end of the connection once retries are exhausted", async () => {
+      const onEnd = jest.fn();
+      client.on("end", onEnd);
+      await client.connect();
+
+      mockRedisClient.isOpen = false;
+      handlers.error(new Error("ECONNREFUSED"));
+
+      expect(client.getConnectionStatus()).toBe(false);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("reconnect strategy", () => {
+    it("should back off exponentially up to the maximum delay", () => {
+      const strategy = createReconnectStrategy({
+        initialDelay: 100,
+        maxDelay: 500,
+        jitter: 0,
+      }) as (retries: number, cause: Error) => number | Error;
+
+      const delays = [0, 1, 2, 3].map((retries) =>
+        strategy(retries, new Error("lost"))
+      );
+      expect(delays).toEqual([100, 200, 400, 500]);
+    });
+
+    it("should apply jitter within the configured fraction", () => {
+      const strategy = createReconnectStrategy({
+        initialDelay: 1000,
+        jitter: 0.5,
+      }) as (retries: number, cause: Error) => number | Error;
+
+      const delay = strategy(0, new Error("lost")) as number;
+      expect(delay).toBeGreaterThanOrEqual(500);
+      expect(delay).toBeLessThanOrEqual(1500);
+    });
+
+    it("should stop after the maximum number of attempts", () => {
+      const strategy = createReconnectStrategy({ maxAttempts: 2 }) as (
+        retries: number,
+        cause: Error
+      ) => number | Error;
+
+      expect(typeof strategy(1, new Error("lost"))).toBe("number");
+      expect(strategy(2, new Error("lost"))).toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+      });
+    });
+
+    it("should disable reconnection when asked", () => {
+      expect(createReconnectStrategy({ enabled: false })).toBe(false);
+    });
+  });
+
+  describe("timeouts", () => {
+    const hang = () => new Promise<never>(() => undefined);
+
+    it("should reject with REDIS_TIMEOUT_ERROR after the configured commandTimeout", async () => {
+      client = new EnhancedRedisClient({ ...TEST_CONFIG, commandTimeout: 20 });
+      await client.connect();
+      mockRedisClient.info.mockImplementation(hang);
+
+      await expect(client.getServerInfo()).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: {
+          operation: "getServerInfo",
+          timeout: 20,
+          elapsed: expect.any(Number),
+        },
+      });
+    });
+
+    it("should let a call override the default timeout", async () => {
+      client = new EnhancedRedisClient({ ...TEST_CONFIG, commandTimeout: 0 });
+      await client.connect();
+      mockRedisClient.flushDb.mockImplementation(hang);
+
+      await expect(
+        client.flushDb({ namespaceOnly: false, timeout: 10 })
+      ).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { operation: "flushDb", timeout: 10 },
+      });
+    });
+
+    it("should reject when the AbortSignal aborts", async () => {
+      await client.connect();
+      mockRedisClient.info.mockImplementation(hang);
+      const controller = new AbortController();
+
+      const pending = client.getServerInfo({ signal: controller.signal });
+      controller.abort(new Error("shutting down"));
+
+      await expect(pending).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { aborted: true, reason: "shutting down" },
+      });
+    });
+
+    it("should report a timed-out ping as not alive", async () => {
+      await client.connect();
+      mockRedisClient.ping.mockImplementation(hang);
+
+      await expect(client.ping({ timeout: 10 })).resolves.toBe(false);
+    });
+
+    it("should reject an invalid commandTimeout", () => {
+      expect(
+        () => new EnhancedRedisClient({ ...TEST_CONFIG, commandTimeout: -1 })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+  });
+
+  describe("retry policy", () => {
+    it("should retry server info while Redis is loading", async () => {
+      client = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      });
+      await client.connect();
+      mockRedisClient.info.mockRejectedValueOnce(
+        new Error("LOADING Redis is loading the dataset in memory")
+      );
+
+      const info = await client.getServerInfo();
+
+      expect(info.server).toHaveProperty("redis_version", "6.0.9");
+      expect(client.getRetryStats()).toMatchObject({
+        retries: 1,
+        recovered: 1,
+        byOperation: { getServerInfo: 1 },
+      });
+    });
+
+    it("should not retry server info before connect()", async () => {
+      client = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        retry: { maxAttempts: 3, initialDelay: 1 },
+      });
+
+      await expect(client.getServerInfo()).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: false,
+      });
+      expect(mockRedisClient.info).not.toHaveBeenCalled();
+      expect(client.getRetryStats().retries).toBe(0);
+    });
+
+    it("should not retry flushDb without an opt-in", async () => {
+      client = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      });
+      await client.connect();
+      mockRedisClient.flushDb.mockRejectedValueOnce(
+        new Error("LOADING Redis is loading the dataset in memory")
+      );
+
+      await expect(
+        client.flushDb({ namespaceOnly: false })
+      ).rejects.toMatchObject({
+        code: ErrorCode.REDIS_LOADING_ERROR,
+        retryable: true,
+      });
+      expect(mockRedisClient.flushDb).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("should fail fast once open and emit the state change", async () => {
+      client = new EnhancedRedisClient({
+        ...TEST_CONFIG,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 },
+      });
+      const circuit = jest.fn();
+      client.on("circuit", circuit);
+      await client.connect();
+      mockRedisClient.info.mockRejectedValue(
+        new Error("Socket closed unexpectedly")
+      );
+
+      await expect(client.getServerInfo()).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+      });
+      await expect(client.getServerInfo()).rejects.toBeDefined();
+
+      mockRedisClient.info.mockClear();
+      await expect(client.getServerInfo()).rejects.toMatchObject({
+        code: ErrorCode.CIRCUIT_OPEN,
+      });
+      expect(mockRedisClient.info).not.toHaveBeenCalled();
+      expect(await client.ping()).toBe(false);
+      expect(client.getCircuitState()).toBe("open");
+      expect(circuit).toHaveBeenCalledWith({
+        from: "closed",
+        to: "open",
+        reason: "2 consecutive failures",
+      });
+
+      await client.disconnect();
+      expect(client.getCircuitState()).toBe("closed");
+    });
+  });
+
   describe("ping", () => {
     it("should return true when connection is alive", async () => {
       await client.connect();
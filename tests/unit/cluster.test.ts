@@ -0,0 +1,297 @@
+import { Schema } from "redis-om";
+import { createCluster } from "redis";
+import { EnhancedRedisClient } from "../../src/core/client";
+import { ErrorCode } from "../../src/errors";
+import {
+  PersistenceType,
+  AOFSyncOption,
+} from "../../src/interfaces/persistence.interface";
+import { HASH_SLOTS, hashSlot } from "../../src/utils/hash.slot";
+
+// Mock logger
+const mockLogger = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+};
+
+jest.mock("../../src/logger", () => ({
+  ConsoleLogger: jest.fn().mockImplementation(() => mockLogger),
+  LogLevel: {
+    ERROR: "error",
+    WARN: "warn",
+    INFO: "info",
+    DEBUG: "debug",
+  },
+}));
+
+jest.mock("redis", () => ({
+  ...jest.requireActual("redis"),
+  createCluster: jest.fn(),
+}));
+
+type MockNode = Record<string, any>;
+
+const createMockNode = (address: string, info: string): MockNode => {
+  const node: MockNode = {
+    address,
+    ping: jest.fn().mockResolvedValue("PONG"),
+    configSet: jest.fn().mockResolvedValue("OK"),
+    configGet: jest.fn(async (name: string) => ({ [name]: "" })),
+    info: jest.fn().mockResolvedValue(info),
+    flushDb: jest.fn().mockResolvedValue("OK"),
+    unlink: jest.fn().mockResolvedValue(1),
+    scanIterator: jest.fn(),
+    watch: jest.fn().mockResolvedValue("OK"),
+    unwatch: jest.fn().mockResolvedValue("OK"),
+    hGet: jest.fn().mockResolvedValue("1"),
+    multi: jest.fn(),
+  };
+  node.executeIsolated = jest.fn((fn) => fn(node));
+  return node;
+};
+
+const createMockMulti = () => {
+  const multi: Record<string, any> = {
+    exec: jest.fn(async () => multi.queued.map(() => 1)),
+    execAsPipeline: jest.fn(async () => multi.queued.map(() => 1)),
+    queued: [] as string[][],
+  };
+  ["unlink", "hSet", "json.set"].forEach((command) => {
+    multi[command] = jest.fn((key: string) => {
+      multi.queued.push([command, key]);
+      return multi;
+    });
+  });
+  return multi;
+};
+
+describe("Cluster mode", () => {
+  const schema = new Schema(
+    "user",
+    {
+      name: { type: "string" },
+      version: { type: "number" },
+      lastUpdated: { type: "date" },
+    },
+    { dataStructure: "HASH" }
+  );
+  let nodeA: MockNode;
+  let nodeB: MockNode;
+  let cluster: Record<string, any>;
+  let multis: Record<string, any>[];
+  let client: EnhancedRedisClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    nodeA = createMockNode(
+      "10.0.0.1:6379",
+      "rdb_bgsave_in_progress:0\nrdb_last_save_time:200\naof_rewrite_in_progress:0\naof_last_rewrite_time:300"
+    );
+    nodeB = createMockNode(
+      "10.0.0.2:6379",
+      "rdb_bgsave_in_progress:1\nrdb_last_save_time:100\naof_rewrite_in_progress:0\naof_last_rewrite_time:400"
+    );
+    multis = [];
+
+    const half = HASH_SLOTS / 2;
+    cluster = {
+      isOpen: false,
+      on: jest.fn(),
+      connect: jest.fn(async () => {
+        cluster.isOpen = true;
+      }),
+      quit: jest.fn(async () => {
+        cluster.isOpen = false;
+      }),
+      masters: [nodeA, nodeB],
+      slots: Array.from({ length: HASH_SLOTS }, (_, slot) => ({
+        master: slot < half ? nodeA : nodeB,
+      })),
+      nodeClient: jest.fn((node) => node),
+      multi: jest.fn(() => {
+        const multi = createMockMulti();
+        multis.push(multi);
+        return multi;
+      }),
+      unlink: jest.fn().mockResolvedValue(1),
+    };
+    (createCluster as jest.Mock).mockReturnValue(cluster);
+
+    client = new EnhancedRedisClient({
+      password: "secret",
+      cluster: {
+        nodes: [
+          { host: "10.0.0.1", port: 6379 },
+          { host: "10.0.0.2", port: 6379 },
+        ],
+      },
+    });
+    await client.connect();
+  });
+
+  it("should discover the cluster from the seed nodes", () => {
+    expect(createCluster).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rootNodes: [
+          { socket: { host: "10.0.0.1", port: 6379 } },
+          { socket: { host: "10.0.0.2", port: 6379 } },
+        ],
+        defaults: expect.objectContaining({ password: "secret" }),
+      })
+    );
+    expect(cluster.connect).toHaveBeenCalled();
+    expect(client.getConnectionStatus()).toBe(true);
+  });
+
+  it("should reject a database other than 0", () => {
+    expect(
+      () =>
+        new EnhancedRedisClient({
+          db: 2,
+          cluster: { nodes: [{ host: "10.0.0.1", port: 6379 }] },
+        })
+    ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+  });
+
+  describe("transactions", () => {
+    it("should hash-tag entity keys and route the MULTI by key", async () => {
+      const manager = client.createTransactionManager(schema);
+
+      await manager.save({ entityId: "abc", name: "Ada" });
+
+      expect(multis[0].queued).toEqual([
+        ["unlink", "user:{abc}"],
+        ["hSet", "user:{abc}"],
+      ]);
+    });
+
+    it("should WATCH on the master serving the entity's slot", async () => {
+      const manager = client.createTransactionManager(schema);
+      const owner = hashSlot("user:{abc}") < HASH_SLOTS / 2 ? nodeA : nodeB;
+      owner.multi.mockImplementation(createMockMulti);
+
+      await manager.save({ entityId: "abc", name: "Ada", version: 1 });
+
+      expect(owner.executeIsolated).toHaveBeenCalled();
+      expect(owner.watch).toHaveBeenCalledWith(["user:{abc}"]);
+    });
+
+    it("should reject transactions spanning several hash slots", async () => {
+      const manager = client.createTransactionManager(schema);
+      expect(hashSlot("user:{a}")).not.toBe(hashSlot("user:{b}"));
+
+      const transaction = await manager.beginTransaction();
+      await transaction.save({ entityId: "a", name: "A" });
+      await transaction.save({ entityId: "b", name: "B" });
+
+      await expect(
+        manager.commitTransaction(transaction)
+      ).rejects.toMatchObject({
+        code: ErrorCode.TRANSACTION_COMMIT_ERROR,
+      });
+      expect(cluster.multi).not.toHaveBeenCalled();
+    });
+
+    it("should pipeline bulk saves once per hash slot", async () => {
+      const manager = client.createTransactionManager(schema);
+
+      const result = await manager.saveMany([
+        { entityId: "a", name: "A" },
+        { entityId: "b", name: "B" },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.results.map((item) => item.entityId)).toEqual(["a", "b"]);
+      expect(multis).toHaveLength(2);
+      multis.forEach((multi) =>
+        expect(multi.execAsPipeline).toHaveBeenCalled()
+      );
+    });
+
+    it("should scan entity IDs on every master", async () => {
+      nodeA.scanIterator.mockReturnValue(
+        (async function* () {
+          yield "user:{a}";
+        })()
+      );
+      nodeB.scanIterator.mockReturnValue(
+        (async function* () {
+          yield "user:{b}";
+          yield "user:history:{b}";
+        })()
+      );
+      const manager = client.createTransactionManager(schema);
+
+      const ids: string[] = [];
+      for await (const id of manager.scanEntityIds()) {
+        ids.push(id);
+      }
+
+      expect(ids).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should apply the configuration to every master", async () => {
+      await client.getPersistenceManager().setPersistence({
+        type: PersistenceType.AOF,
+        aofOptions: { appendfsync: AOFSyncOption.EVERYSEC },
+      });
+
+      [nodeA, nodeB].forEach((node) => {
+        expect(node.configSet).toHaveBeenCalledWith("appendonly", "yes");
+        expect(node.configSet).toHaveBeenCalledWith("appendfsync", "everysec");
+      });
+    });
+
+    it("should report the status of every master", async () => {
+      const status = await client
+        .getPersistenceManager()
+        .checkPersistenceStatus();
+
+      expect(status).toEqual({
+        rdbSaveInProgress: true,
+        aofRewriteInProgress: false,
+        lastRdbSaveTime: 100,
+        lastAofRewriteTime: 300,
+        nodes: {
+          "10.0.0.1:6379": {
+            rdbSaveInProgress: false,
+            aofRewriteInProgress: false,
+            lastRdbSaveTime: 200,
+            lastAofRewriteTime: 300,
+          },
+          "10.0.0.2:6379": {
+            rdbSaveInProgress: true,
+            aofRewriteInProgress: false,
+            lastRdbSaveTime: 100,
+            lastAofRewriteTime: 400,
+          },
+        },
+      });
+    });
+  });
+
+  it("should flush a namespace key by key on every master", async () => {
+    nodeA.scanIterator.mockReturnValue(
+      (async function* () {
+        yield "user:{a}";
+        yield "user:{c}";
+      })()
+    );
+    nodeB.scanIterator.mockReturnValue((async function* () {})());
+
+    await client.flushDb({ tenant: "acme" });
+
+    expect(nodeA.scanIterator).toHaveBeenCalledWith({
+      MATCH: "acme:*",
+      COUNT: 1000,
+    });
+    expect(nodeB.scanIterator).toHaveBeenCalled();
+    expect(nodeA.unlink).toHaveBeenCalledWith("user:{a}");
+    expect(nodeA.unlink).toHaveBeenCalledWith("user:{c}");
+  });
+});
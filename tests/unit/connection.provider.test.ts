@@ -0,0 +1,240 @@
+import { RedisClientType } from "redis";
+import { ConnectionProvider } from "../../src/core/connection.provider";
+
+const mockLogger = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+};
+
+jest.mock("../../src/logger", () => ({
+  ConsoleLogger: jest.fn().mockImplementation(() => mockLogger),
+  LogLevel: {
+    ERROR: "error",
+    WARN: "warn",
+    INFO: "info",
+    DEBUG: "debug",
+  },
+}));
+
+const createMockClient = (isOpen: boolean) =>
+  ({
+    isOpen,
+    on: jest.fn(),
+    connect: jest.fn().mockResolvedValue(undefined),
+    quit: jest.fn().mockResolvedValue("OK"),
+    disconnect: jest.fn().mockResolvedValue(undefined),
+  } as unknown as RedisClientType);
+
+describe("ConnectionProvider", () => {
+  it("should spread regular commands over the pool", () => {
+    const [a, b] = [createMockClient(true), createMockClient(true)];
+    const provider = new ConnectionProvider([a, b]);
+
+    expect([
+      provider.getClient(),
+      provider.getClient(),
+      provider.getClient(),
+    ]).toEqual([a, b, a]);
+    expect(provider.getPrimaryClient()).toBe(a);
+  });
+
+  it("should fall back to the primary without a dedicated connection", () => {
+    const primary = createMockClient(true);
+    const dedicated = createMockClient(true);
+
+    expect(ConnectionProvider.fromClient(primary).getDedicatedClient()).toBe(
+      primary
+    );
+    expect(
+      new ConnectionProvider([primary], dedicated).getDedicatedClient()
+    ).toBe(dedicated);
+  });
+
+  describe("isolated work", () => {
+    it("should run on the dedicated connection one caller at a time", async () => {
+      const dedicated = createMockClient(true);
+      const provider = new ConnectionProvider(
+        [createMockClient(true)],
+        dedicated
+      );
+      const order: string[] = [];
+      const work = (name: string) => async (client: unknown) => {
+        expect(client).toBe(dedicated);
+        order.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(`${name} end`);
+      };
+
+      await Promise.all([
+        provider.runIsolated("a", work("first")),
+        provider.runIsolated("b", work("second")),
+      ]);
+
+      expect(order).toEqual([
+        "first start",
+        "first end",
+        "second start",
+        "second end",
+      ]);
+    });
+
+    it("should unwatch the dedicated connection after a failure", async () => {
+      const dedicated = Object.assign(createMockClient(true), {
+        unwatch: jest.fn().mockResolvedValue("OK"),
+      });
+      const provider = new ConnectionProvider(
+        [createMockClient(true)],
+        dedicated
+      );
+
+      await expect(
+        provider.runIsolated("a", async () => {
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+      expect(dedicated.unwatch).toHaveBeenCalledTimes(1);
+      await expect(provider.runIsolated("a", async () => "next")).resolves.toBe(
+        "next"
+      );
+    });
+
+    it("should use the isolation pool without a dedicated connection", async () => {
+      const isolated = createMockClient(true);
+      const primary = Object.assign(createMockClient(true), {
+        executeIsolated: jest.fn((fn) => fn(isolated)),
+      });
+
+      await expect(
+        ConnectionProvider.fromClient(primary).runIsolated(
+          "a",
+          async (client) => client
+        )
+      ).resolves.toBe(isolated);
+    });
+  });
+
+  it("should only connect closed and quit open connections", async () => {
+    const open = createMockClient(true);
+    const closed = createMockClient(false);
+    const provider = new ConnectionProvider([open], closed);
+
+    await provider.connect();
+    await provider.disconnect();
+
+    expect(open.connect).not.toHaveBeenCalled();
+    expect(closed.connect).toHaveBeenCalledTimes(1);
+    expect(open.quit).toHaveBeenCalledTimes(1);
+    expect(closed.quit).not.toHaveBeenCalled();
+  });
+
+  it("should swap in new connections and drop the old ones", async () => {
+    const old = createMockClient(true);
+    const fresh = createMockClient(false);
+    const provider = new ConnectionProvider([old]);
+
+    await provider.replace(ConnectionProvider.fromClient(fresh));
+
+    expect(fresh.connect).toHaveBeenCalledTimes(1);
+    expect(old.disconnect).toHaveBeenCalledTimes(1);
+    expect(old.quit).not.toHaveBeenCalled();
+    expect(provider.getClient()).toBe(fresh);
+    expect(provider.getDedicatedClient()).toBe(fresh);
+  });
+
+  it("should log errors of every connection it creates", () => {
+    const provider = ConnectionProvider.create(
+      { socket: { host: "localhost", port: 6379 } },
+      { size: 2 }
+    );
+    const [, pooled, dedicated] = provider.getConnections();
+
+    for (const client of [pooled, dedicated]) {
+      expect(() =>
+        client.emit("error", new Error("Socket closed unexpectedly"))
+      ).not.toThrow();
+    }
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      "Redis connection error",
+      "ConnectionProvider",
+      { error: "Socket closed unexpectedly" }
+    );
+  });
+
+  it("should listen for errors on the connections it takes over", async () => {
+    const fresh = createMockClient(false);
+    const provider = new ConnectionProvider([createMockClient(true)]);
+
+    await provider.replace(ConnectionProvider.fromClient(fresh));
+
+    expect(fresh.on).toHaveBeenCalledWith("error", expect.any(Function));
+  });
+
+  describe("read policy", () => {
+    const createNode = (isReady: boolean, delay: number = 0) =>
+      ({
+        isOpen: isReady,
+        isReady,
+        ping: jest.fn(
+          () =>
+            new Promise((resolve) => setTimeout(() => resolve("PONG"), delay))
+        ),
+      } as unknown as RedisClientType);
+
+    it("should rotate over ready replicas", () => {
+      const primary = createNode(true);
+      const [a, down, b] = [
+        createNode(true),
+        createNode(false),
+        createNode(true),
+      ];
+      const provider = new ConnectionProvider([primary]);
+      provider.useReplicas([a, down, b], "replicaPreferred");
+
+      expect([
+        provider.getReadClient(),
+        provider.getReadClient(),
+        provider.getReadClient(),
+      ]).toEqual([a, b, a]);
+    });
+
+    it("should fall back to the primary without a ready replica", () => {
+      const primary = createNode(true);
+      const provider = new ConnectionProvider([primary]);
+
+      provider.useReplicas([createNode(false)], "replicaPreferred");
+      expect(provider.getReadClient()).toBe(primary);
+
+      provider.useReplicas([createNode(true)], "primary");
+      expect(provider.getReadClient()).toBe(primary);
+    });
+
+    it("should pick the endpoint with the lowest latency", async () => {
+      const primary = createNode(true, 30);
+      const [slow, fast] = [createNode(true, 60), createNode(true)];
+      const provider = new ConnectionProvider([primary]);
+      provider.useReplicas([slow, fast], "nearest");
+
+      expect(provider.getReadClient()).toBe(primary);
+      await provider.measureLatency();
+      expect(provider.getReadClient()).toBe(fast);
+    });
+
+    it("should keep a session on the primary once it has written", async () => {
+      const primary = createNode(true);
+      const replica = createNode(true);
+      const provider = new ConnectionProvider([primary]);
+      provider.useReplicas([replica], "replicaPreferred");
+
+      const reads = await provider.runInSession(async () => {
+        const before = provider.getReadClient();
+        provider.markWritten();
+        return [before, provider.getReadClient()];
+      });
+
+      expect(reads).toEqual([replica, primary]);
+      expect(provider.getReadClient()).toBe(replica);
+    });
+  });
+});
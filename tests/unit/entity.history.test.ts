@@ -0,0 +1,117 @@
+import { Schema } from "redis-om";
+import { RedisClientType } from "redis";
+import { EntityHistory } from "../../src/core/entity.history";
+import { EntityData } from "../../src/interfaces/entity.interface";
+
+describe("EntityHistory", () => {
+  const schema = new Schema("test", {
+    name: { type: "string" },
+    openedAt: { type: "date" },
+  });
+  const historyKey = (entityId: string) => `test:history:${entityId}`;
+
+  const snapshot = (version: number, lastUpdated: string) =>
+    JSON.stringify({
+      entityId: "acc1",
+      name: `v${version}`,
+      version,
+      lastUpdated,
+      openedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+  let mockRedisClient: {
+    hSet: jest.Mock;
+    hGet: jest.Mock;
+    hVals: jest.Mock;
+    hDel: jest.Mock;
+  };
+
+  beforeEach(() => {
+    mockRedisClient = {
+      hSet: jest.fn().mockResolvedValue(1),
+      hGet: jest.fn().mockResolvedValue(null),
+      hVals: jest
+        .fn()
+        .mockResolvedValue([
+          snapshot(3, "2024-03-03T00:00:00.000Z"),
+          snapshot(1, "2024-03-01T00:00:00.000Z"),
+          snapshot(2, "2024-03-02T00:00:00.000Z"),
+        ]),
+      hDel: jest.fn().mockResolvedValue(1),
+    };
+  });
+
+  const createHistory = (options = {}) =>
+    new EntityHistory<EntityData>(
+      schema,
+      { enabled: true, ...options },
+      historyKey
+    );
+
+  const client = () => mockRedisClient as unknown as RedisClientType;
+
+  it("should list versions oldest first", async () => {
+    const versions = await createHistory().list(client(), "acc1");
+
+    expect(mockRedisClient.hVals).toHaveBeenCalledWith("test:history:acc1");
+    expect(versions).toEqual([
+      { version: 1, lastUpdated: new Date("2024-03-01T00:00:00.000Z") },
+      { version: 2, lastUpdated: new Date("2024-03-02T00:00:00.000Z") },
+      { version: 3, lastUpdated: new Date("2024-03-03T00:00:00.000Z") },
+    ]);
+  });
+
+  it("should restore schema dates when fetching a version", async () => {
+    mockRedisClient.hGet.mockResolvedValue(
+      snapshot(2, "2024-03-02T00:00:00.000Z")
+    );
+
+    const entity = await createHistory().fetch(client(), "acc1", 2);
+
+    expect(mockRedisClient.hGet).toHaveBeenCalledWith("test:history:acc1", "2");
+    expect(entity?.name).toBe("v2");
+    expect(entity?.openedAt).toBeInstanceOf(Date);
+    expect(entity?.lastUpdated).toEqual(new Date("2024-03-02T00:00:00.000Z"));
+  });
+
+  it("should fetch the version current at a point in time", async () => {
+    mockRedisClient.hGet.mockImplementation(async (_key, version) =>
+      snapshot(Number(version), "2024-03-02T00:00:00.000Z")
+    );
+
+    const entity = await createHistory().fetchAsOf(
+      client(),
+      "acc1",
+      new Date("2024-03-02T12:00:00.000Z")
+    );
+
+    expect(entity?.version).toBe(2);
+  });
+
+  it("should drop versions beyond maxVersions", async () => {
+    await createHistory({ maxVersions: 2 }).trim(client(), "acc1");
+
+    expect(mockRedisClient.hDel).toHaveBeenCalledWith("test:history:acc1", [
+      "1",
+    ]);
+  });
+
+  it("should drop expired versions but keep the newest", async () => {
+    jest.useFakeTimers().setSystemTime(new Date("2024-04-01T00:00:00.000Z"));
+
+    await createHistory({ maxAge: 60 * 1000 }).trim(client(), "acc1");
+
+    expect(mockRedisClient.hDel).toHaveBeenCalledWith("test:history:acc1", [
+      "1",
+      "2",
+    ]);
+    jest.useRealTimers();
+  });
+
+  it("should not trim without retention settings", async () => {
+    await createHistory().trim(client(), "acc1");
+
+    expect(mockRedisClient.hVals).not.toHaveBeenCalled();
+    expect(mockRedisClient.hDel).not.toHaveBeenCalled();
+  });
+});
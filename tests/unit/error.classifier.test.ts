@@ -0,0 +1,130 @@
+import {
+  ConnectionTimeoutError,
+  ErrorReply,
+  MultiErrorReply,
+  SocketClosedUnexpectedlyError,
+} from "redis";
+import {
+  ErrorClassifier,
+  ErrorCode,
+  ErrorRegistry,
+  RedisConnectionError,
+  RedisErrorHandler,
+} from "../../src/errors";
+
+describe("ErrorClassifier", () => {
+  it.each([
+    ["NOAUTH Authentication required.", ErrorCode.REDIS_AUTH_ERROR, false],
+    [
+      "WRONGPASS invalid username-password pair",
+      ErrorCode.REDIS_AUTH_ERROR,
+      false,
+    ],
+    [
+      "WRONGTYPE Operation against a key holding the wrong kind of value",
+      ErrorCode.REDIS_WRONGTYPE_ERROR,
+      false,
+    ],
+    [
+      "READONLY You can't write against a read only replica.",
+      ErrorCode.REDIS_READONLY_ERROR,
+      true,
+    ],
+    [
+      "LOADING Redis is loading the dataset in memory",
+      ErrorCode.REDIS_LOADING_ERROR,
+      true,
+    ],
+    [
+      "OOM command not allowed when used memory > 'maxmemory'.",
+      ErrorCode.REDIS_OOM_ERROR,
+      false,
+    ],
+    ["BUSY Redis is busy running a script.", ErrorCode.REDIS_BUSY_ERROR, true],
+    [
+      "EXECABORT Transaction discarded because of previous errors.",
+      ErrorCode.TRANSACTION_ABORTED,
+      false,
+    ],
+    ["MOVED 3999 127.0.0.1:6381", ErrorCode.REDIS_CLUSTER_REDIRECT, true],
+  ])("should classify %s", (message, code, retryable) => {
+    expect(ErrorClassifier.classify(new ErrorReply(message))).toEqual({
+      code,
+      retryable,
+    });
+  });
+
+  it("should classify socket errors as retryable connection errors", () => {
+    const refused = Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    });
+
+    [
+      refused,
+      new SocketClosedUnexpectedlyError(),
+      new ConnectionTimeoutError(),
+    ].forEach((error) =>
+      expect(ErrorClassifier.classify(error)).toEqual({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: true,
+      })
+    );
+  });
+
+  it("should classify a failed pipeline by its first error reply", () => {
+    const error = new MultiErrorReply(
+      [1, new ErrorReply("OOM command not allowed")],
+      [1]
+    );
+
+    expect(ErrorClassifier.classify(error)?.code).toBe(
+      ErrorCode.REDIS_OOM_ERROR
+    );
+  });
+
+  it("should leave unknown errors unclassified", () => {
+    expect(ErrorClassifier.classify(new Error("boom"))).toBeUndefined();
+    expect(ErrorClassifier.classify("boom")).toBeUndefined();
+    expect(ErrorClassifier.isRetryable(new Error("boom"))).toBe(false);
+  });
+
+  describe("ErrorRegistry.wrapError", () => {
+    it("should use the classified code for raw Redis errors", () => {
+      const error = ErrorRegistry.wrapError(
+        new ErrorReply("READONLY You can't write against a read only replica."),
+        ErrorCode.TRANSACTION_ERROR,
+        { operation: "save" }
+      );
+
+      expect(error).toMatchObject({
+        code: ErrorCode.REDIS_READONLY_ERROR,
+        retryable: true,
+        details: { operation: "save" },
+      });
+    });
+
+    it("should keep the fallback code and retryability of library errors", () => {
+      const error = ErrorRegistry.wrapError(
+        ErrorRegistry.createError(ErrorCode.REDIS_TIMEOUT_ERROR),
+        ErrorCode.TRANSACTION_ERROR
+      );
+
+      expect(error).toMatchObject({
+        code: ErrorCode.TRANSACTION_ERROR,
+        retryable: true,
+      });
+    });
+
+    it("should use the fallback code for unknown errors", () => {
+      expect(
+        ErrorRegistry.wrapError(new Error("boom"), ErrorCode.TRANSACTION_ERROR)
+      ).toMatchObject({ code: ErrorCode.TRANSACTION_ERROR, retryable: false });
+    });
+  });
+
+  it("should let RedisErrorHandler recognise socket errors", () => {
+    expect(
+      new RedisErrorHandler().handleError(new SocketClosedUnexpectedlyError())
+    ).toBeInstanceOf(RedisConnectionError);
+  });
+});
@@ -0,0 +1,58 @@
+import { DefaultKeyStrategy } from "../../src/core/key.strategy";
+import { hashSlot } from "../../src/utils/hash.slot";
+
+describe("DefaultKeyStrategy", () => {
+  const keys = new DefaultKeyStrategy("user");
+
+  it("should build exact entity and history keys", () => {
+    expect(keys.entityKey("abc")).toBe("user:abc");
+    expect(keys.historyKey("abc")).toBe("user:history:abc");
+  });
+
+  it("should escape glob characters in the scan pattern", () => {
+    expect(keys.entityPattern()).toBe("user:*");
+    expect(new DefaultKeyStrategy("a*b[1]").entityPattern()).toBe(
+      "a\\*b\\[1\\]:*"
+    );
+  });
+
+  it("should only parse entity IDs from entity keys", () => {
+    expect(keys.parseEntityId("user:abc")).toBe("abc");
+    expect(keys.parseEntityId("user:abc123")).toBe("abc123");
+    expect(keys.parseEntityId("user:history:abc")).toBeNull();
+    expect(keys.parseEntityId("user:index:hash")).toBeNull();
+    expect(keys.parseEntityId("users:abc")).toBeNull();
+  });
+
+  describe("with hash tags", () => {
+    const tagged = new DefaultKeyStrategy("user", { hashTags: true });
+
+    it("should keep an entity and its history in one slot", () => {
+      expect(tagged.entityKey("abc")).toBe("user:{abc}");
+      expect(tagged.historyKey("abc")).toBe("user:history:{abc}");
+      expect(hashSlot(tagged.entityKey("abc"))).toBe(
+        hashSlot(tagged.historyKey("abc"))
+      );
+    });
+
+    it("should parse entity IDs from tagged keys only", () => {
+      expect(tagged.parseEntityId("user:{abc}")).toBe("abc");
+      expect(tagged.parseEntityId("user:abc")).toBeNull();
+      expect(tagged.parseEntityId("user:{}")).toBeNull();
+      expect(tagged.parseEntityId("user:history:{abc}")).toBeNull();
+    });
+  });
+});
+
+describe("hashSlot", () => {
+  it("should match the slots Redis Cluster assigns", () => {
+    expect(hashSlot("123456789")).toBe(12739);
+    expect(hashSlot("foo")).toBe(12182);
+  });
+
+  it("should only hash the first non-empty hash tag", () => {
+    expect(hashSlot("{user1000}.following")).toBe(hashSlot("user1000"));
+    expect(hashSlot("foo{}{bar}")).not.toBe(hashSlot("bar"));
+    expect(hashSlot("foo{{bar}}zap")).toBe(hashSlot("{bar"));
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  createHealthRules,
+  evaluateHealthRules,
+  parsePersistenceHealth,
+  worstSeverity,
+} from "../../src/core/persistence.health";
+import { PersistenceNodeHealth } from "../../src/interfaces/persistence.interface";
+
+const now = 1700000000000;
+
+const healthyInfo = [
+  "# Persistence",
+  "loading:0",
+  "rdb_changes_since_last_save:0",
+  "rdb_bgsave_in_progress:0",
+  `rdb_last_save_time:${now / 1000 - 60}`,
+  "rdb_last_bgsave_status:ok",
+  "aof_enabled:0",
+  "aof_rewrite_in_progress:0",
+  "aof_rewrite_scheduled:0",
+  "aof_last_bgrewrite_status:ok",
+  "aof_last_write_status:ok",
+  "latest_fork_usec:1200",
+].join("\r\n");
+
+const createHealth = (
+  overrides: Partial<PersistenceNodeHealth> = {}
+): PersistenceNodeHealth => ({
+  ...parsePersistenceHealth(healthyInfo),
+  ...overrides,
+});
+
+const failedRules = (health: PersistenceNodeHealth) =>
+  evaluateHealthRules({ primary: health }, createHealthRules(), now)
+    .filter(({ passed }) => !passed)
+    .map(({ rule, severity }) => [rule, severity]);
+
+describe("parsePersistenceHealth", () => {
+  it("should parse INFO persistence", () => {
+    expect(
+      parsePersistenceHealth(
+        healthyInfo +
+          "\r\naof_enabled:1\r\naof_buffer_length:512\r\naof_rewrite_buffer_length:64"
+      )
+    ).toEqual({
+      loading: false,
+      rdbSaveInProgress: false,
+      aofRewriteInProgress: false,
+      aofRewriteScheduled: false,
+      aofEnabled: true,
+      lastRdbSaveTime: now / 1000 - 60,
+      lastAofRewriteTime: 0,
+      rdbLastBgsaveStatus: "ok",
+      aofLastWriteStatus: "ok",
+      aofLastBgrewriteStatus: "ok",
+      rdbChangesSinceLastSave: 0,
+      latestForkUsec: 1200,
+      aofBufferLength: 512,
+      aofRewriteBufferLength: 64,
+    });
+  });
+});
+
+describe("default health rules", () => {
+  it("should pass a healthy node", () => {
+    expect(failedRules(createHealth())).toEqual([]);
+  });
+
+  it.each<[string, Partial<PersistenceNodeHealth>, string, string]>([
+    ["loading", { loading: true }, "loading", "critical"],
+    [
+      "a failed bgsave",
+      { rdbLastBgsaveStatus: "err" },
+      "lastBgsaveFailed",
+      "critical",
+    ],
+    [
+      "a failed AOF write",
+      { aofEnabled: true, aofLastWriteStatus: "err" },
+      "aofWriteFailed",
+      "critical",
+    ],
+    [
+      "a failed AOF rewrite",
+      { aofEnabled: true, aofLastBgrewriteStatus: "err" },
+      "aofRewriteFailed",
+      "warning",
+    ],
+    [
+      "old unsaved changes",
+      { rdbChangesSinceLastSave: 10, lastRdbSaveTime: now / 1000 - 3600 },
+      "unsavedChanges",
+      "warning",
+    ],
+    ["a slow fork", { latestForkUsec: 2500000 }, "slowFork", "warning"],
+    [
+      "a full AOF buffer",
+      { aofBufferLength: 64 * 1024 * 1024 },
+      "aofBufferFull",
+      "warning",
+    ],
+  ])("should flag %s", (_, overrides, rule, severity) => {
+    expect(failedRules(createHealth(overrides))).toEqual([[rule, severity]]);
+  });
+
+  it("should not flag unsaved changes when AOF is on", () => {
+    expect(
+      failedRules(
+        createHealth({
+          aofEnabled: true,
+          rdbChangesSinceLastSave: 10,
+          lastRdbSaveTime: now / 1000 - 3600,
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it("should apply custom thresholds", () => {
+    const results = evaluateHealthRules(
+      { primary: createHealth({ rdbChangesSinceLastSave: 1 }) },
+      createHealthRules({ maxUnsavedAge: 30 * 1000 }),
+      now
+    );
+
+    expect(results.find(({ rule }) => rule === "unsavedChanges")).toEqual({
+      rule: "unsavedChanges",
+      address: "primary",
+      passed: false,
+      severity: "warning",
+      message: "1 changes unsaved for 1 minutes",
+    });
+  });
+});
+
+describe("worstSeverity", () => {
+  it("should report the worst failed rule", () => {
+    const result = (severity: "ok" | "warning" | "critical") => ({
+      rule: "rule",
+      address: "primary",
+      passed: severity === "ok",
+      severity,
+    });
+
+    expect(worstSeverity([])).toBe("ok");
+    expect(worstSeverity([result("ok"), result("warning")])).toBe("warning");
+    expect(
+      worstSeverity([result("critical"), result("warning"), result("ok")])
+    ).toBe("critical");
+  });
+});
@@ -12,7 +12,10 @@ import {
 interface MockRedisCommands {
   configGet: jest.Mock;
   configSet: jest.Mock;
+  configRewrite: jest.Mock;
   info: jest.Mock;
+  bgSave: jest.Mock;
+  bgRewriteAof: jest.Mock;
   quit: jest.Mock;
   connect: jest.Mock;
 }
@@ -51,7 +54,10 @@ describe("PersistenceManager", () => {
     mockCommands = {
       configGet: jest.fn(),
       configSet: jest.fn(),
+      configRewrite: jest.fn(),
       info: jest.fn(),
+      bgSave: jest.fn(),
+      bgRewriteAof: jest.fn(),
       quit: jest.fn(),
       connect: jest.fn(),
     };
@@ -68,9 +74,14 @@ describe("PersistenceManager", () => {
     });
 
     mockCommands.configSet.mockResolvedValue("OK");
+    mockCommands.configRewrite.mockResolvedValue("OK");
     mockCommands.info.mockResolvedValue(
       "# Persistence\nrdb_bgsave_in_progress:0\naof_rewrite_in_progress:0"
     );
+    mockCommands.bgSave.mockResolvedValue("Background saving started");
+    mockCommands.bgRewriteAof.mockResolvedValue(
+      "Background append only file rewriting started"
+    );
     mockCommands.quit.mockResolvedValue(undefined);
     mockCommands.connect.mockResolvedValue(undefined);
 
@@ -132,6 +143,80 @@ describe("PersistenceManager", () => {
       expect(mockLogger.info).toHaveBeenCalled();
     });
 
+    it("should configure hybrid persistence with several save points", async () => {
+      const config: PersistenceConfig = {
+        type: PersistenceType.HYBRID,
+        rdbOptions: {
+          savePoints: [
+            { seconds: 3600, changes: 1 },
+            { seconds: 300, changes: 100 },
+          ],
+        },
+        aofOptions: {
+          appendfsync: AOFSyncOption.EVERYSEC,
+        },
+      };
+
+      await persistenceManager.setPersistence(config);
+
+      expect(mockCommands.configSet).toHaveBeenCalledWith(
+        "save",
+        "3600 1 300 100"
+      );
+      expect(mockCommands.configSet).toHaveBeenCalledWith("appendonly", "yes");
+      expect(mockCommands.configSet).toHaveBeenCalledWith(
+        "appendfsync",
+        "everysec"
+      );
+      expect(mockCommands.configSet).toHaveBeenCalledWith(
+        "aof-use-rdb-preamble",
+        "yes"
+      );
+    });
+
+    it("should leave the RDB preamble alone for pure AOF persistence", async () => {
+      await persistenceManager.setPersistence({
+        type: PersistenceType.AOF,
+        aofOptions: { appendfsync: AOFSyncOption.ALWAYS },
+      });
+
+      expect(mockCommands.configSet).toHaveBeenCalledWith("save", "");
+      expect(mockCommands.configSet).not.toHaveBeenCalledWith(
+        "aof-use-rdb-preamble",
+        expect.anything()
+      );
+    });
+
+    it.each([
+      [
+        "hybrid persistence without an AOF sync option",
+        {
+          type: PersistenceType.HYBRID,
+          rdbOptions: { saveFrequency: 60 },
+        },
+      ],
+      [
+        "hybrid persistence without save rules",
+        {
+          type: PersistenceType.HYBRID,
+          rdbOptions: { savePoints: [] },
+          aofOptions: { appendfsync: AOFSyncOption.EVERYSEC },
+        },
+      ],
+      [
+        "save points that are not positive integers",
+        {
+          type: PersistenceType.RDB,
+          rdbOptions: { savePoints: [{ seconds: 60, changes: 0 }] },
+        },
+      ],
+    ])("should reject %s", async (_, config) => {
+      await expect(
+        persistenceManager.setPersistence(config as PersistenceConfig)
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_CONFIG });
+      expect(mockCommands.configSet).not.toHaveBeenCalled();
+    });
+
     it("should throw error for invalid persistence type", async () => {
       const invalidConfig = {
         type: "INVALID" as PersistenceType,
@@ -144,6 +229,201 @@ describe("PersistenceManager", () => {
     });
   });
 
+  describe("rollback and rewrite", () => {
+    const rdbConfig: PersistenceConfig = {
+      type: PersistenceType.RDB,
+      rdbOptions: { saveFrequency: 900 },
+    };
+
+    it("should restore the previous values when a CONFIG SET fails", async () => {
+      mockCommands.configSet
+        .mockResolvedValueOnce("OK")
+        .mockRejectedValueOnce(new Error("ERR Invalid argument"));
+
+      await expect(
+        persistenceManager.setPersistence(rdbConfig)
+      ).rejects.toMatchObject({
+        code: ErrorCode.PERSISTENCE_OPERATION_ERROR,
+        details: { operation: "applyConfig", rolledBack: true },
+      });
+
+      expect(mockCommands.configSet.mock.calls).toEqual([
+        ["save", "900 1"],
+        ["appendonly", "no"], // fails, so only save is restored
+        ["save", ""],
+      ]);
+    });
+
+    it("should report masters that could not be rolled back", async () => {
+      mockCommands.configSet
+        .mockResolvedValueOnce("OK")
+        .mockRejectedValue(new Error("ERR Invalid argument"));
+
+      await expect(
+        persistenceManager.setPersistence(rdbConfig)
+      ).rejects.toMatchObject({
+        details: { rolledBack: false, rollbackFailures: ["primary"] },
+      });
+    });
+
+    it("should roll back once the timeout gives up on the apply", async () => {
+      mockCommands.configSet.mockImplementationOnce(
+        () => new Promise((resolve) => setTimeout(() => resolve("OK"), 50))
+      );
+
+      await expect(
+        persistenceManager.setPersistence(rdbConfig, { timeout: 10 })
+      ).rejects.toMatchObject({ code: ErrorCode.REDIS_TIMEOUT_ERROR });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockCommands.configSet.mock.calls).toEqual([
+        ["save", "900 1"],
+        ["save", ""], // appendonly is never sent
+      ]);
+    });
+
+    it("should roll back once the signal aborts the apply", async () => {
+      const controller = new AbortController();
+      mockCommands.configRewrite.mockImplementationOnce(async () => {
+        controller.abort(new Error("shutting down"));
+        return "OK";
+      });
+
+      await expect(
+        persistenceManager.setPersistence(rdbConfig, {
+          rewrite: true,
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { aborted: true },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockCommands.configSet).toHaveBeenLastCalledWith("save", "");
+      expect(mockCommands.configRewrite).toHaveBeenCalledTimes(2);
+    });
+
+    it("should persist the settings with CONFIG REWRITE when asked", async () => {
+      await persistenceManager.setPersistence(rdbConfig, { rewrite: true });
+
+      expect(mockCommands.configRewrite).toHaveBeenCalledTimes(1);
+    });
+
+    it("should roll back when CONFIG REWRITE fails", async () => {
+      mockCommands.configRewrite.mockRejectedValue(
+        new Error("ERR The server is running without a config file")
+      );
+
+      await expect(
+        persistenceManager.setPersistence(rdbConfig, { rewrite: true })
+      ).rejects.toMatchObject({ details: { rolledBack: true } });
+
+      expect(mockCommands.configSet).toHaveBeenLastCalledWith("save", "");
+    });
+
+    it("should plan the changes without applying them", async () => {
+      const plan = await persistenceManager.planPersistence({
+        type: PersistenceType.AOF,
+        aofOptions: { appendfsync: AOFSyncOption.EVERYSEC },
+      });
+
+      expect(plan.changes).toEqual([
+        { address: "primary", key: "appendonly", from: "no", to: "yes" },
+      ]);
+      expect(mockCommands.configSet).not.toHaveBeenCalled();
+    });
+
+    it("should validate the planned configuration", async () => {
+      await expect(
+        persistenceManager.planPersistence({ type: PersistenceType.RDB })
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_CONFIG });
+    });
+  });
+
+  describe("drift reconciliation", () => {
+    const rdbConfig: PersistenceConfig = {
+      type: PersistenceType.RDB,
+      rdbOptions: { saveFrequency: 900 },
+    };
+
+    afterEach(() => persistenceManager.stopReconciler());
+
+    it("should report nothing when the servers match", async () => {
+      const onDrift = jest.fn();
+      persistenceManager.on("drift", onDrift);
+
+      await expect(
+        persistenceManager.reconcile({ type: PersistenceType.NONE })
+      ).resolves.toBeUndefined();
+      expect(onDrift).not.toHaveBeenCalled();
+    });
+
+    it("should emit the drift without re-applying by default", async () => {
+      const onDrift = jest.fn();
+      persistenceManager.on("drift", onDrift);
+
+      const drift = await persistenceManager.reconcile(rdbConfig);
+
+      expect(drift).toEqual({
+        desired: rdbConfig,
+        changes: [{ address: "primary", key: "save", from: "", to: "900 1" }],
+      });
+      expect(onDrift).toHaveBeenCalledWith(drift);
+      expect(mockCommands.configSet).not.toHaveBeenCalled();
+    });
+
+    it("should re-apply the desired config when asked", async () => {
+      const onReconciled = jest.fn();
+      persistenceManager.on("reconciled", onReconciled);
+
+      await persistenceManager.reconcile(rdbConfig, {
+        reapply: true,
+        rewrite: true,
+      });
+
+      expect(mockCommands.configSet).toHaveBeenCalledWith("save", "900 1");
+      expect(mockCommands.configRewrite).toHaveBeenCalled();
+      expect(onReconciled).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check on an interval until stopped", async () => {
+      const drift = new Promise((resolve) =>
+        persistenceManager.once("drift", resolve)
+      );
+
+      persistenceManager.startReconciler(rdbConfig, { interval: 5 });
+
+      await expect(drift).resolves.toMatchObject({ desired: rdbConfig });
+      persistenceManager.stopReconciler();
+      const checks = mockCommands.configGet.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(mockCommands.configGet).toHaveBeenCalledTimes(checks);
+    });
+
+    it("should emit failed checks as reconcileError", async () => {
+      mockCommands.configGet.mockRejectedValue(new Error("Redis error"));
+      const failure = new Promise((resolve) =>
+        persistenceManager.once("reconcileError", resolve)
+      );
+
+      persistenceManager.startReconciler(rdbConfig, { interval: 5 });
+
+      await expect(failure).resolves.toMatchObject({
+        code: ErrorCode.PERSISTENCE_OPERATION_ERROR,
+      });
+    });
+
+    it("should reject an invalid interval or config", () => {
+      expect(() =>
+        persistenceManager.startReconciler(rdbConfig, { interval: 0 })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+      expect(() =>
+        persistenceManager.startReconciler({ type: PersistenceType.AOF })
+      ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+    });
+  });
+
   describe("getCurrentConfig", () => {
     it("should detect RDB configuration", async () => {
       mockCommands.configGet.mockImplementation(async () => ({
@@ -179,6 +459,70 @@ describe("PersistenceManager", () => {
       });
     });
 
+    it("should parse several save rules", async () => {
+      mockCommands.configGet.mockImplementation(async () => ({
+        save: "3600 1 300 100 60 10000",
+        appendonly: "no",
+        appendfsync: "everysec",
+      }));
+
+      const config = await persistenceManager.getCurrentConfig();
+
+      expect(config).toEqual({
+        type: PersistenceType.RDB,
+        rdbOptions: {
+          saveFrequency: 3600,
+          savePoints: [
+            { seconds: 3600, changes: 1 },
+            { seconds: 300, changes: 100 },
+            { seconds: 60, changes: 10000 },
+          ],
+        },
+      });
+    });
+
+    it("should detect hybrid configuration", async () => {
+      mockCommands.configGet.mockImplementation(async () => ({
+        save: "900 1",
+        appendonly: "yes",
+        appendfsync: "always",
+        "aof-use-rdb-preamble": "yes",
+      }));
+
+      const config = await persistenceManager.getCurrentConfig();
+
+      expect(config).toEqual({
+        type: PersistenceType.HYBRID,
+        rdbOptions: {
+          saveFrequency: 900,
+        },
+        aofOptions: {
+          appendfsync: AOFSyncOption.ALWAYS,
+        },
+      });
+    });
+
+    it("should report snapshots next to an AOF without a preamble as AOF", async () => {
+      mockCommands.configGet.mockImplementation(async () => ({
+        save: "900 1",
+        appendonly: "yes",
+        appendfsync: "always",
+        "aof-use-rdb-preamble": "no",
+      }));
+
+      const config = await persistenceManager.getCurrentConfig();
+
+      expect(config).toEqual({
+        type: PersistenceType.AOF,
+        rdbOptions: {
+          saveFrequency: 900,
+        },
+        aofOptions: {
+          appendfsync: AOFSyncOption.ALWAYS,
+        },
+      });
+    });
+
     it("should handle Redis errors", async () => {
       mockCommands.configGet.mockRejectedValue(new Error("Redis error"));
 
@@ -217,6 +561,153 @@ describe("PersistenceManager", () => {
     });
   });
 
+  describe("background jobs", () => {
+    it("should wait for the snapshot to finish and report progress", async () => {
+      mockCommands.info
+        .mockResolvedValueOnce(
+          "rdb_bgsave_in_progress:1\r\nrdb_last_bgsave_status:ok\r\n"
+        )
+        .mockResolvedValueOnce(
+          "rdb_bgsave_in_progress:0\r\nrdb_last_bgsave_status:ok\r\n"
+        );
+      const onProgress = jest.fn();
+
+      const result = await persistenceManager.snapshot({
+        pollInterval: 1,
+        onProgress,
+      });
+
+      expect(mockCommands.bgSave).toHaveBeenCalledTimes(1);
+      expect(mockCommands.info).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ job: "snapshot", nodes: ["primary"] });
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        expect.objectContaining({ pending: ["primary"], completed: [] }),
+        expect.objectContaining({ pending: [], completed: ["primary"] }),
+      ]);
+    });
+
+    it("should wait for a scheduled AOF rewrite", async () => {
+      mockCommands.info
+        .mockResolvedValueOnce(
+          "aof_rewrite_in_progress:0\naof_rewrite_scheduled:1\naof_last_bgrewrite_status:ok"
+        )
+        .mockResolvedValueOnce(
+          "aof_rewrite_in_progress:0\naof_rewrite_scheduled:0\naof_last_bgrewrite_status:ok"
+        );
+
+      await persistenceManager.rewriteAof({ pollInterval: 1 });
+
+      expect(mockCommands.bgRewriteAof).toHaveBeenCalledTimes(1);
+      expect(mockCommands.info).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject with PERSISTENCE_SAVE_ERROR when the save fails", async () => {
+      mockCommands.info.mockResolvedValue(
+        "rdb_bgsave_in_progress:0\nrdb_last_bgsave_status:err"
+      );
+
+      await expect(
+        persistenceManager.snapshot({ pollInterval: 1 })
+      ).rejects.toMatchObject({
+        code: ErrorCode.PERSISTENCE_SAVE_ERROR,
+        details: { operation: "snapshot", address: "primary" },
+      });
+    });
+
+    it("should reject with PERSISTENCE_SAVE_ERROR when the save cannot start", async () => {
+      const startError = new Error("ERR Background save already in progress");
+      mockCommands.bgSave.mockRejectedValue(startError);
+
+      await expect(persistenceManager.snapshot()).rejects.toMatchObject({
+        code: ErrorCode.PERSISTENCE_SAVE_ERROR,
+        cause: startError,
+      });
+      expect(mockCommands.info).not.toHaveBeenCalled();
+    });
+
+    it("should time out when the job takes too long", async () => {
+      mockCommands.info.mockResolvedValue(
+        "rdb_bgsave_in_progress:1\nrdb_last_bgsave_status:ok"
+      );
+
+      await expect(
+        persistenceManager.snapshot({ timeout: 20, pollInterval: 5 })
+      ).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { operation: "snapshot", timeout: 20 },
+      });
+
+      const polls = mockCommands.info.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(mockCommands.info).toHaveBeenCalledTimes(polls);
+    });
+
+    it("should reject an invalid poll interval", async () => {
+      await expect(
+        persistenceManager.snapshot({ pollInterval: 0 })
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMETER });
+      expect(mockCommands.bgSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getHealthReport", () => {
+    it("should report each master and emit alerts for failed rules", async () => {
+      mockCommands.info.mockResolvedValue(
+        "loading:0\r\nrdb_last_bgsave_status:err\r\nlatest_fork_usec:500"
+      );
+      const onAlert = jest.fn();
+      persistenceManager.on("alert", onAlert);
+
+      const report = await persistenceManager.getHealthReport();
+
+      expect(report.severity).toBe("critical");
+      expect(report.nodes.primary).toMatchObject({
+        rdbLastBgsaveStatus: "err",
+        latestForkUsec: 500,
+      });
+      expect(onAlert).toHaveBeenCalledTimes(1);
+      expect(onAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rule: "lastBgsaveFailed",
+          address: "primary",
+          severity: "critical",
+        })
+      );
+    });
+
+    it("should evaluate custom rules", async () => {
+      const report = await persistenceManager.getHealthReport({
+        rules: [
+          {
+            name: "noPersistence",
+            severity: "warning",
+            check: (health) =>
+              health.aofEnabled ? undefined : "AOF is disabled",
+          },
+        ],
+      });
+
+      expect(report.severity).toBe("warning");
+      expect(report.results).toEqual([
+        {
+          rule: "noPersistence",
+          address: "primary",
+          passed: false,
+          severity: "warning",
+          message: "AOF is disabled",
+        },
+      ]);
+    });
+
+    it("should handle Redis errors", async () => {
+      mockCommands.info.mockRejectedValue(new Error("Redis error"));
+
+      await expect(persistenceManager.getHealthReport()).rejects.toMatchObject({
+        code: ErrorCode.PERSISTENCE_OPERATION_ERROR,
+      });
+    });
+  });
+
   describe("disconnect", () => {
     it("should disconnect successfully", async () => {
       await persistenceManager.disconnect();
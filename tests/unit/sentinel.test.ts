@@ -0,0 +1,207 @@
+import { createClient } from "redis";
+import { EnhancedRedisClient } from "../../src/core/client";
+import { SentinelMonitor } from "../../src/core/sentinel.monitor";
+import { ErrorCode } from "../../src/errors";
+
+// Mock logger
+const mockLogger = {
+  error: jest.fn(),
+  warn: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+};
+
+jest.mock("../../src/logger", () => ({
+  ConsoleLogger: jest.fn().mockImplementation(() => mockLogger),
+  LogLevel: {
+    ERROR: "error",
+    WARN: "warn",
+    INFO: "info",
+    DEBUG: "debug",
+  },
+}));
+
+jest.mock("redis", () => ({
+  createClient: jest.fn(),
+}));
+
+type MockConnection = Record<string, any>;
+
+describe("Sentinel mode", () => {
+  const sentinels = [
+    { host: "sentinel-1", port: 26379 },
+    { host: "sentinel-2", port: 26379 },
+  ];
+  let connections: MockConnection[];
+  let masters: Record<string, string[] | null>;
+  let switchListener: ((message: string) => void) | undefined;
+
+  const dataConnections = (host: string) =>
+    connections.filter((connection) => connection.options.socket.host === host);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    connections = [];
+    switchListener = undefined;
+    masters = {
+      "sentinel-1": ["10.0.0.1", "6379"],
+      "sentinel-2": ["10.0.0.1", "6379"],
+    };
+
+    (createClient as jest.Mock).mockImplementation((options) => {
+      const connection: MockConnection = {
+        options,
+        isOpen: false,
+        on: jest.fn(),
+        connect: jest.fn(async () => {
+          if (options.socket.host === "down") {
+            throw new Error("ECONNREFUSED");
+          }
+          connection.isOpen = true;
+          connection.isReady = true;
+        }),
+        disconnect: jest.fn(async () => {
+          connection.isOpen = false;
+        }),
+        quit: jest.fn(async () => {
+          connection.isOpen = false;
+        }),
+        sendCommand: jest.fn(async () => masters[options.socket.host]),
+        subscribe: jest.fn(async (_channel, listener) => {
+          switchListener = listener;
+        }),
+        ping: jest.fn().mockResolvedValue("PONG"),
+        configGet: jest.fn(async (name: string) => ({ [name]: "" })),
+      };
+      connections.push(connection);
+      return connection;
+    });
+  });
+
+  describe("SentinelMonitor", () => {
+    it("should ask the next sentinel when one is unreachable", async () => {
+      const monitor = new SentinelMonitor({
+        sentinels: [{ host: "down", port: 26379 }, sentinels[1]],
+        masterName: "mymaster",
+      });
+
+      await expect(monitor.discoverMaster()).resolves.toEqual({
+        host: "10.0.0.1",
+        port: 6379,
+      });
+    });
+
+    it("should fail when no sentinel knows the master", async () => {
+      masters = { "sentinel-1": null, "sentinel-2": null };
+      const monitor = new SentinelMonitor({ sentinels, masterName: "other" });
+
+      await expect(monitor.discoverMaster()).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+      });
+    });
+  });
+
+  describe("EnhancedRedisClient", () => {
+    let client: EnhancedRedisClient;
+
+    beforeEach(async () => {
+      client = new EnhancedRedisClient({
+        password: "secret",
+        sentinel: { sentinels, masterName: "mymaster" },
+      });
+      await client.connect();
+    });
+
+    it("should connect to the master reported by the sentinels", () => {
+      const masterConnections = dataConnections("10.0.0.1");
+
+      expect(masterConnections).toHaveLength(2);
+      masterConnections.forEach((connection) => {
+        expect(connection.isOpen).toBe(true);
+        expect(connection.options).toMatchObject({
+          password: "secret",
+          socket: { host: "10.0.0.1", port: 6379 },
+        });
+      });
+      expect(client.getConnectionStatus()).toBe(true);
+    });
+
+    it("should follow a failover without rebuilding the managers", async () => {
+      const persistence = client.getPersistenceManager();
+      const onFailover = jest.fn();
+      client.on("failover", onFailover);
+
+      switchListener!("mymaster 10.0.0.1 6379 10.0.0.2 6380");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(onFailover).toHaveBeenCalledWith({
+        masterName: "mymaster",
+        previous: { host: "10.0.0.1", port: 6379 },
+        current: { host: "10.0.0.2", port: 6380 },
+      });
+      dataConnections("10.0.0.1").forEach((connection) =>
+        expect(connection.isOpen).toBe(false)
+      );
+
+      await persistence.getCurrentConfig();
+      expect(dataConnections("10.0.0.2")[0].configGet).toHaveBeenCalled();
+    });
+
+    it("should ignore switches of other masters", async () => {
+      const onFailover = jest.fn();
+      client.on("failover", onFailover);
+
+      switchListener!("othermaster 10.0.0.1 6379 10.0.0.9 6379");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(onFailover).not.toHaveBeenCalled();
+      expect(dataConnections("10.0.0.9")).toHaveLength(0);
+    });
+  });
+
+  it("should open the replicas and probe them in sentinel mode", async () => {
+    const client = new EnhancedRedisClient({
+      sentinel: { sentinels, masterName: "mymaster" },
+      replicas: {
+        endpoints: [{ host: "10.0.0.5", port: 6379 }],
+        readPolicy: "nearest",
+      },
+    });
+
+    await client.connect();
+
+    const [replica] = dataConnections("10.0.0.5");
+    expect(replica.isOpen).toBe(true);
+    expect(replica.ping).toHaveBeenCalled();
+    await client.disconnect();
+  });
+
+  it("should reach the sentinels over the configured TLS", async () => {
+    const client = new EnhancedRedisClient({
+      tls: { servername: "redis.internal", rejectUnauthorized: false },
+      sentinel: { sentinels, masterName: "mymaster" },
+    });
+
+    await client.connect();
+
+    const sentinelConnections = dataConnections("sentinel-1");
+    expect(sentinelConnections).toHaveLength(2); // lookup and subscriber
+    sentinelConnections.forEach((connection) =>
+      expect(connection.options.socket).toMatchObject({
+        tls: true,
+        servername: "redis.internal",
+        rejectUnauthorized: false,
+      })
+    );
+    await client.disconnect();
+  });
+
+  it("should reject a sentinel config without a master name", () => {
+    expect(
+      () =>
+        new EnhancedRedisClient({
+          sentinel: { sentinels, masterName: "" },
+        })
+    ).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_CONFIG }));
+  });
+});
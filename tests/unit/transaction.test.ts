@@ -1,8 +1,10 @@
 import { Client, Schema, Repository } from "redis-om";
-import { RedisClientType } from "redis";
+import { ErrorReply, RedisClientType, WatchError } from "redis";
 import { TransactionManager } from "../../src/core/transaction";
-import { ErrorCode } from "../../src/errors";
+import { ConnectionProvider } from "../../src/core/connection.provider";
+import { ErrorCode, ErrorRegistry } from "../../src/errors";
 import { EntityData } from "../../src/interfaces/entity.interface";
+import { RetryPolicy } from "../../src/interfaces/connection.interface";
 
 // Mock logger
 const mockLogger = {
@@ -12,11 +14,6 @@ const mockLogger = {
   debug: jest.fn(),
 };
 
-// Mock error handler
-const mockErrorHandler = {
-  handleError: jest.fn(),
-};
-
 // Mock implementations
 jest.mock("../../src/logger", () => ({
   ConsoleLogger: jest.fn().mockImplementation(() => mockLogger),
@@ -28,10 +25,6 @@ jest.mock("../../src/logger", () => ({
   },
 }));
 
-jest.mock("../../src/errors/handlers/transaction.handler", () => ({
-  TransactionErrorHandler: jest.fn().mockImplementation(() => mockErrorHandler),
-}));
-
 describe("TransactionManager", () => {
   let transactionManager: TransactionManager<EntityData>;
   let mockRepository: jest.Mocked<Repository>;
@@ -64,117 +57,1071 @@ describe("TransactionManager", () => {
   describe("remove", () => {
     const entityId = "test123";
 
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        unlink: jest.fn().mockResolvedValue(1),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+
+      transactionManager = new TransactionManager<EntityData>(
+        testSchema,
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType
+      );
+    });
+
     it("should remove entity successfully", async () => {
-      // Create mock functions with proper typing
-      const mockKeys = jest.fn();
-      const mockDel = jest.fn();
-      const mockPing = jest.fn().mockResolvedValue("PONG");
+      await transactionManager.remove(entityId);
+
+      // Only the exact key is removed, never keys sharing its prefix
+      expect(mockRedisClient.unlink).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.unlink).toHaveBeenCalledWith(`test:${entityId}`);
+
+      // Verify successful operation was logged
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        "Entity removed successfully",
+        "TransactionManager",
+        { entityId }
+      );
+    });
+
+    it("should throw ENTITY_NOT_FOUND when the key does not exist", async () => {
+      (mockRedisClient.unlink as jest.Mock).mockResolvedValue(0);
+
+      await expect(transactionManager.remove(entityId)).rejects.toMatchObject({
+        code: ErrorCode.ENTITY_NOT_FOUND,
+      });
+    });
+  });
+
+  describe("fetch", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGetAll: jest.fn().mockResolvedValue({
+          name: "test",
+          value: "123",
+          version: "2",
+          lastUpdated: "1700000000",
+        }),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" }, value: { type: "number" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType
+      );
+    });
+
+    it("should read the entity from its exact key", async () => {
+      const entity = await transactionManager.fetch("test123");
+
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledWith("test:test123");
+      expect(entity).toEqual({
+        entityId: "test123",
+        name: "test",
+        value: 123,
+        version: 2,
+        lastUpdated: new Date(1700000000 * 1000),
+      });
+    });
+
+    it("should throw ENTITY_NOT_FOUND for a missing key", async () => {
+      (mockRedisClient.hGetAll as jest.Mock).mockResolvedValue({});
+
+      await expect(transactionManager.fetch("missing")).rejects.toMatchObject({
+        code: ErrorCode.ENTITY_NOT_FOUND,
+      });
+    });
+
+    it("should address keys through a custom key strategy", async () => {
+      transactionManager = new TransactionManager<EntityData>(
+        testSchema,
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType,
+        {
+          keyStrategy: {
+            entityKey: (id) => `entities/${id}`,
+            historyKey: (id) => `history/${id}`,
+            entityPattern: () => "entities/*",
+            parseEntityId: (key) => key.replace("entities/", ""),
+          },
+        }
+      );
+      (mockRedisClient as any).json = {
+        get: jest.fn().mockResolvedValue({ name: "custom" }),
+      };
+
+      const entity = await transactionManager.fetch("abc");
+
+      expect((mockRedisClient as any).json.get).toHaveBeenCalledWith(
+        "entities/abc"
+      );
+      expect(entity).toEqual({ entityId: "abc", name: "custom" });
+    });
+
+    it("should iterate entity IDs with SCAN", async () => {
+      mockRedisClient.scanIterator = jest
+        .fn()
+        .mockImplementation(async function* () {
+          yield "test:a";
+          yield "test:history:a";
+          yield "test:b";
+        });
+
+      const ids: string[] = [];
+      for await (const id of transactionManager.scanEntityIds(100)) {
+        ids.push(id);
+      }
+
+      expect(mockRedisClient.scanIterator).toHaveBeenCalledWith({
+        MATCH: "test:*",
+        COUNT: 100,
+      });
+      expect(ids).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("read replicas", () => {
+    let primary: Record<string, any>;
+    let replica: Record<string, any>;
+    let provider: ConnectionProvider;
+
+    const createNode = () => ({
+      isOpen: true,
+      isReady: true,
+      ping: jest.fn().mockResolvedValue("PONG"),
+      hGetAll: jest.fn().mockResolvedValue({ name: "test", version: "1" }),
+      unlink: jest.fn().mockResolvedValue(1),
+      multi: jest.fn(() => ({ exec: jest.fn().mockResolvedValue([]) })),
+    });
+
+    beforeEach(() => {
+      primary = createNode();
+      replica = createNode();
+      provider = new ConnectionProvider([
+        primary as unknown as RedisClientType,
+      ]);
+      provider.useReplicas(
+        [replica as unknown as RedisClientType],
+        "replicaPreferred"
+      );
+
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          {
+            dataStructure: "HASH",
+          }
+        ),
+        mockClient,
+        "test",
+        provider
+      );
+    });
+
+    it("should fetch from a replica", async () => {
+      await transactionManager.fetch("abc");
+
+      expect(replica.hGetAll).toHaveBeenCalledWith("test:abc");
+      expect(primary.hGetAll).not.toHaveBeenCalled();
+    });
+
+    it("should not follow a write outside a session", async () => {
+      await transactionManager.remove("abc");
+      await transactionManager.fetch("abc");
+
+      // Only runInSession keeps reads after a write on the primary
+      expect(replica.hGetAll).toHaveBeenCalledWith("test:abc");
+      expect(primary.hGetAll).not.toHaveBeenCalled();
+    });
+
+    it("should read from the primary inside a transaction", async () => {
+      await transactionManager.runInTransaction(() =>
+        transactionManager.fetch("abc")
+      );
+
+      expect(primary.hGetAll).toHaveBeenCalledWith("test:abc");
+      expect(replica.hGetAll).not.toHaveBeenCalled();
+    });
+
+    it("should record patched history from the primary", async () => {
+      const chain = {
+        hIncrBy: jest.fn().mockReturnThis(),
+        hSet: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([2, 1]),
+      };
+      Object.assign(primary, {
+        multi: jest.fn(() => chain),
+        hSet: jest.fn().mockResolvedValue(1),
+        hVals: jest.fn().mockResolvedValue([]),
+      });
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        provider,
+        { history: { enabled: true } }
+      );
+
+      const transaction = await transactionManager.beginTransaction();
+      transaction.patch("abc", { name: "patched" });
+      await transactionManager.commitTransaction();
+
+      expect(primary.hGetAll).toHaveBeenCalledWith("test:abc");
+      expect(replica.hGetAll).not.toHaveBeenCalled();
+    });
+
+    it("should read from the primary after a write in the session", async () => {
+      await provider.runInSession(async () => {
+        await transactionManager.fetch("abc");
+        await transactionManager.remove("old");
+        await transactionManager.fetch("abc");
+      });
+      await transactionManager.fetch("abc");
+
+      expect(replica.hGetAll).toHaveBeenCalledTimes(2);
+      expect(primary.hGetAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("timeouts", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    const createManager = (commandTimeout?: number) =>
+      new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType,
+        { commandTimeout }
+      );
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGetAll: jest.fn(() => new Promise(() => undefined)),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    it("should reject a hung fetch with REDIS_TIMEOUT_ERROR", async () => {
+      transactionManager = createManager(20);
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { operation: "fetch", timeout: 20 },
+      });
+    });
+
+    it("should prefer the timeout passed to the call", async () => {
+      transactionManager = createManager(60000);
 
-      // Setup mock responses
-      const existingKeys = [`test:${entityId}`];
+      await expect(
+        transactionManager.fetch("abc", { timeout: 10 })
+      ).rejects.toMatchObject({
+        details: { operation: "fetch", timeout: 10 },
+      });
+    });
+
+    it("should reject at once when the signal is already aborted", async () => {
+      transactionManager = createManager();
+
+      await expect(
+        transactionManager.fetch("abc", { signal: AbortSignal.abort() })
+      ).rejects.toMatchObject({
+        code: ErrorCode.REDIS_TIMEOUT_ERROR,
+        details: { operation: "fetch", aborted: true },
+      });
+      expect(mockRedisClient.hGetAll).not.toHaveBeenCalled();
+    });
+
+    it("should reject a negative timeout", async () => {
+      transactionManager = createManager();
+
+      await expect(
+        transactionManager.fetch("abc", { timeout: -5 })
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_PARAMETER });
+    });
+  });
+
+  describe("retry policy", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+    const retry = { maxAttempts: 3, initialDelay: 1, jitter: 0 };
+    const blip = () =>
+      Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" });
+
+    const createManager = (policy: RetryPolicy = retry) =>
+      new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType,
+        { retry: policy }
+      );
 
-      // Setup mock implementation for keys
-      mockKeys
-        .mockImplementationOnce(() => Promise.resolve(existingKeys)) // First call (fetch check)
-        .mockImplementationOnce(() => Promise.resolve(existingKeys)) // Second call (remove check)
-        .mockImplementationOnce(() => Promise.resolve([])); // Third call (verification)
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGetAll: jest
+          .fn()
+          .mockRejectedValueOnce(blip())
+          .mockResolvedValue({ name: "test" }),
+        unlink: jest.fn().mockRejectedValueOnce(blip()).mockResolvedValue(1),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+    });
 
-      // Setup mock implementation for del
-      mockDel.mockImplementation(() => Promise.resolve(1)); // Successful deletion
+    it("should retry a read after a transient error and count it", async () => {
+      transactionManager = createManager();
+
+      await expect(transactionManager.fetch("abc")).resolves.toMatchObject({
+        name: "test",
+      });
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(2);
+      expect(transactionManager.getRetryStats()).toEqual({
+        retries: 1,
+        recovered: 1,
+        exhausted: 0,
+        byOperation: { fetch: 1 },
+      });
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "Retrying operation",
+        "TransactionManager",
+        expect.objectContaining({
+          operation: "fetch",
+          attempt: 2,
+          error: expect.objectContaining({
+            code: ErrorCode.REDIS_CONNECTION_ERROR,
+          }),
+        })
+      );
+    });
 
-      // Create mock Redis client that matches ExtendedRedisClient interface
+    it("should retry a read while the connection is reconnecting", async () => {
+      Object.defineProperty(mockRedisClient, "isReady", {
+        get: jest.fn().mockReturnValueOnce(false).mockReturnValue(true),
+      });
+      (mockRedisClient.hGetAll as jest.Mock)
+        .mockReset()
+        .mockResolvedValue({ name: "test" });
+      transactionManager = createManager();
+
+      await expect(transactionManager.fetch("abc")).resolves.toBeDefined();
+      expect(mockRedisClient.ping).not.toHaveBeenCalled();
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(1);
+      expect(transactionManager.getRetryStats().byOperation).toEqual({
+        fetch: 1,
+      });
+    });
+
+    it("should not retry a read on a closed client", async () => {
+      mockRedisClient.isOpen = false;
+      transactionManager = createManager();
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: false,
+      });
+      expect(mockRedisClient.hGetAll).not.toHaveBeenCalled();
+      expect(transactionManager.getRetryStats().byOperation).toEqual({});
+    });
+
+    it("should not retry writes unless opted in", async () => {
+      transactionManager = createManager();
+
+      await expect(transactionManager.remove("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+        retryable: true,
+      });
+      await expect(
+        transactionManager.remove("abc", { retry: true })
+      ).resolves.toBeUndefined();
+      expect(transactionManager.getRetryStats().byOperation).toEqual({});
+    });
+
+    it("should retry writes when the policy allows it", async () => {
+      transactionManager = createManager({ ...retry, retryWrites: true });
+
+      await transactionManager.remove("abc");
+
+      expect(mockRedisClient.unlink).toHaveBeenCalledTimes(2);
+      expect(transactionManager.getRetryStats().byOperation).toEqual({
+        remove: 1,
+      });
+    });
+
+    it("should not retry errors outside retryOn", async () => {
+      transactionManager = createManager({
+        ...retry,
+        retryOn: [ErrorCode.REDIS_LOADING_ERROR],
+      });
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+      });
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      (mockRedisClient.hGetAll as jest.Mock).mockRejectedValue(blip());
+      transactionManager = createManager();
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_CONNECTION_ERROR,
+      });
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(3);
+      expect(transactionManager.getRetryStats()).toMatchObject({
+        retries: 2,
+        exhausted: 1,
+      });
+    });
+
+    it("should reject an invalid policy", () => {
+      expect(() => createManager({ ...retry, maxAttempts: 0 })).toThrow(
+        expect.objectContaining({ code: ErrorCode.INVALID_CONFIG })
+      );
+    });
+  });
+
+  describe("error classification", () => {
+    it("should reject with the code of the Redis error reply", async () => {
       const mockRedisClient = {
         isOpen: true,
-        ping: mockPing,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGetAll: jest
+          .fn()
+          .mockRejectedValue(
+            new ErrorReply(
+              "WRONGTYPE Operation against a key holding the wrong kind of value"
+            )
+          ),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType
+      );
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.REDIS_WRONGTYPE_ERROR,
+        retryable: false,
+        details: { operation: "fetch", entityId: "abc" },
+      });
+    });
+  });
+
+  describe("error handler", () => {
+    it("should build thrown errors with a custom handler", async () => {
+      const handleError = jest.fn(() =>
+        ErrorRegistry.createError(ErrorCode.SYSTEM_ERROR)
+      );
+      const mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGetAll: jest.fn().mockRejectedValue(new Error("boom")),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType,
+        { errorHandler: { handleError } }
+      );
+
+      await expect(transactionManager.fetch("abc")).rejects.toMatchObject({
+        code: ErrorCode.SYSTEM_ERROR,
+      });
+      expect(handleError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "boom" }),
+        expect.objectContaining({ operation: "fetch", entityId: "abc" }),
+        ErrorCode.TRANSACTION_ERROR
+      );
+    });
+  });
+
+  describe("save with version check", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        watch: jest.fn().mockResolvedValue("OK"),
+        unwatch: jest.fn().mockResolvedValue("OK"),
+        hGet: jest.fn().mockResolvedValue("3"),
         multi: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue([]),
-        discard: jest.fn().mockResolvedValue(undefined),
-        keys: mockKeys,
-        del: mockDel,
+        unlink: jest.fn().mockReturnThis(),
+        hSet: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([1, 4]),
         quit: jest.fn().mockResolvedValue(undefined),
       };
+      mockRedisClient.executeIsolated = jest
+        .fn()
+        .mockImplementation((fn) => fn(mockRedisClient));
 
-      // Mock entity for Repository's fetch with proper array return
-      const mockEntityData = [
-        {
-          entityId,
-          name: "test",
-          value: 123,
-          version: 1,
-          [Symbol.for("entityId")]: entityId,
-        },
-      ];
+      const hashSchema = new Schema(
+        "test",
+        { name: { type: "string" }, version: { type: "number" } },
+        { dataStructure: "HASH" }
+      );
 
-      mockRepository.fetch.mockImplementation(() =>
-        Promise.resolve(mockEntityData)
+      transactionManager = new TransactionManager<EntityData>(
+        hashSchema,
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType
       );
+    });
+
+    it("should save when the stored version matches", async () => {
+      const saved = await transactionManager.save({
+        entityId: "acc1",
+        name: "alice",
+        version: 3,
+      });
+
+      expect(mockRedisClient.watch).toHaveBeenCalledWith(["test:acc1"]);
+      expect(mockRedisClient.hGet).toHaveBeenCalledWith("test:acc1", "version");
+      expect(mockRedisClient.exec).toHaveBeenCalled();
+      expect(mockRepository.save).not.toHaveBeenCalled();
+      expect(saved).toMatchObject({ entityId: "acc1", version: 4 });
+    });
 
-      // Create TransactionManager instance
+    it("should reject with TRANSACTION_CONFLICT on a version mismatch", async () => {
+      (mockRedisClient.hGet as jest.Mock).mockResolvedValue("5");
+
+      await expect(
+        transactionManager.save({ entityId: "acc1", name: "alice", version: 3 })
+      ).rejects.toMatchObject({
+        code: ErrorCode.TRANSACTION_CONFLICT,
+        statusCode: 409,
+        details: { entityId: "acc1", expectedVersion: 3, storedVersion: 5 },
+      });
+      expect(mockRedisClient.unwatch).toHaveBeenCalled();
+      expect(mockRedisClient.exec).not.toHaveBeenCalled();
+    });
+
+    it("should WATCH on the dedicated connection of a shared provider", async () => {
+      const shared = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        quit: jest.fn(),
+      };
+      const provider = new ConnectionProvider(
+        [shared as unknown as RedisClientType],
+        mockRedisClient as unknown as RedisClientType
+      );
       transactionManager = new TransactionManager<EntityData>(
-        testSchema,
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        provider
+      );
+
+      await transactionManager.save({ entityId: "acc1", version: 3 });
+      await transactionManager.disconnect();
+
+      expect(mockRedisClient.watch).toHaveBeenCalledWith(["test:acc1"]);
+      // The dedicated connection itself is used, not node-redis's isolation pool
+      expect(mockRedisClient.executeIsolated).not.toHaveBeenCalled();
+      // The provider's owner closes shared connections
+      expect(shared.quit).not.toHaveBeenCalled();
+    });
+
+    it("should reject with TRANSACTION_CONFLICT when EXEC is aborted", async () => {
+      (mockRedisClient.exec as jest.Mock).mockRejectedValue(new WatchError());
+
+      await expect(
+        transactionManager.save({ entityId: "acc1", name: "alice", version: 3 })
+      ).rejects.toMatchObject({
+        code: ErrorCode.TRANSACTION_CONFLICT,
+      });
+    });
+  });
+
+  describe("runInTransaction", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        watch: jest.fn().mockResolvedValue("OK"),
+        unwatch: jest.fn().mockResolvedValue("OK"),
+        hGet: jest.fn().mockResolvedValue("1"),
+        multi: jest.fn().mockReturnThis(),
+        unlink: jest.fn().mockReturnThis(),
+        hSet: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([1, 3]),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+      mockRedisClient.executeIsolated = jest
+        .fn()
+        .mockImplementation((fn) => fn(mockRedisClient));
+
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
         mockClient,
         "test",
         mockRedisClient as unknown as RedisClientType
       );
+    });
 
-      // Execute remove operation
-      await transactionManager.remove(entityId);
+    it("should commit the operations queued by the callback", async () => {
+      const result = await transactionManager.runInTransaction(async (tx) => {
+        await tx.save({ entityId: "acc1", name: "alice", version: 1 });
+        return "done";
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        value: "done",
+        attempts: 1,
+      });
+      expect(mockRedisClient.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it("should build repeated saves of one entity on the queued version", async () => {
+      const result = await transactionManager.runInTransaction(async (tx) => {
+        const first = await tx.save({
+          entityId: "acc1",
+          name: "alice",
+          version: 1,
+        });
+        return tx.save({ ...first, name: "alicia" });
+      });
 
-      // Verify all operations
-      const keyPattern = `test:${entityId}*`;
+      expect(result).toMatchObject({
+        success: true,
+        value: { name: "alicia", version: 3 },
+        attempts: 1,
+      });
+      // Only the first save checks the stored version
+      expect(mockRedisClient.hGet).toHaveBeenCalledTimes(1);
+    });
 
-      // Check that keys was called with correct pattern
-      expect(mockKeys).toHaveBeenCalledWith(keyPattern);
+    it("should roll back and rethrow when the callback throws", async () => {
+      const failure = new Error("Insufficient funds");
 
-      // Check that del was called with the correct keys array
-      expect(mockDel).toHaveBeenCalledWith(existingKeys);
+      await expect(
+        transactionManager.runInTransaction(async (tx) => {
+          tx.remove("acc1");
+          throw failure;
+        })
+      ).rejects.toBe(failure);
 
-      // Check that repository remove was called
-      expect(mockRepository.remove).toHaveBeenCalledWith(entityId);
+      expect(mockRedisClient.exec).not.toHaveBeenCalled();
 
-      // Verify successful operation was logged
-      expect(mockLogger.info).toHaveBeenCalledWith(
-        "Entity removed successfully",
-        "TransactionManager",
-        { entityId }
+      // The manager is free for the next transaction
+      await expect(
+        transactionManager.beginTransaction()
+      ).resolves.toBeDefined();
+    });
+
+    it("should re-run the callback when EXEC is aborted by a conflict", async () => {
+      (mockRedisClient.exec as jest.Mock)
+        .mockRejectedValueOnce(new WatchError())
+        .mockResolvedValueOnce([1, 3]);
+      const callback = jest.fn(async (tx) => {
+        await tx.save({ entityId: "acc1", name: "alice", version: 1 });
+      });
+
+      const result = await transactionManager.runInTransaction(callback, {
+        retries: 2,
+        backoff: 0,
+      });
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(result.attempts).toBe(2);
+    });
+
+    it("should give up after the configured number of retries", async () => {
+      (mockRedisClient.hGet as jest.Mock).mockResolvedValue("7");
+
+      await expect(
+        transactionManager.runInTransaction(
+          async (tx) => {
+            await tx.save({ entityId: "acc1", name: "alice", version: 1 });
+          },
+          { retries: 1, backoff: () => 0 }
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_CONFLICT });
+      expect(mockRedisClient.executeIsolated).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("bulk operations", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        hGet: jest.fn().mockResolvedValue("2"),
+        multi: jest.fn().mockReturnThis(),
+        unlink: jest.fn().mockReturnThis(),
+        hSet: jest.fn().mockReturnThis(),
+        watch: jest.fn().mockResolvedValue("OK"),
+        unwatch: jest.fn().mockResolvedValue("OK"),
+        exec: jest.fn(),
+        execAsPipeline: jest.fn(),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+      mockRedisClient.executeIsolated = jest
+        .fn()
+        .mockImplementation((fn) => fn(mockRedisClient));
+
+      transactionManager = new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" }, version: { type: "number" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType
+      );
+    });
+
+    it("should pipeline saves and report conflicts per item", async () => {
+      (mockRedisClient.execAsPipeline as jest.Mock).mockResolvedValue([0, 2]);
+      (mockRedisClient.exec as jest.Mock).mockResolvedValue([1, 3]);
+
+      const result = await transactionManager.saveMany([
+        { name: "new" },
+        { entityId: "stale", name: "stale", version: 1 },
+        { entityId: "fresh", name: "fresh", version: 2 },
+      ]);
+
+      expect(mockRedisClient.ping).not.toHaveBeenCalled();
+      expect(mockRedisClient.execAsPipeline).toHaveBeenCalledTimes(1);
+      // Versioned saves are checked and written under WATCH, one at a time
+      expect(mockRedisClient.watch).toHaveBeenCalledWith(["test:stale"]);
+      expect(mockRedisClient.watch).toHaveBeenCalledWith(["test:fresh"]);
+      expect(mockRedisClient.exec).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+      expect(result.results.map((item) => item.success)).toEqual([
+        true,
+        false,
+        true,
+      ]);
+      expect(result.results[1]).toMatchObject({
+        entityId: "stale",
+        error: { code: ErrorCode.TRANSACTION_CONFLICT },
+      });
+      expect(result.results[2].entity).toMatchObject({ version: 3 });
+    });
+
+    it("should report a concurrent write to a versioned item as a conflict", async () => {
+      (mockRedisClient.exec as jest.Mock).mockRejectedValue(new WatchError());
+
+      const result = await transactionManager.saveMany([
+        { entityId: "fresh", name: "fresh", version: 2 },
+      ]);
+
+      expect(result.results[0]).toMatchObject({
+        entityId: "fresh",
+        success: false,
+        error: { code: ErrorCode.TRANSACTION_CONFLICT },
+      });
+      expect(mockRedisClient.execAsPipeline).not.toHaveBeenCalled();
+    });
+
+    it("should save all entities in one MULTI/EXEC in atomic mode", async () => {
+      (mockRedisClient.exec as jest.Mock).mockResolvedValue([0, 2, 0, 2]);
+
+      const result = await transactionManager.saveMany(
+        [{ name: "a" }, { name: "b" }],
+        { atomic: true }
       );
+
+      expect(mockRedisClient.exec).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.execAsPipeline).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+    });
+
+    it("should fail the whole atomic save on a version conflict", async () => {
+      await expect(
+        transactionManager.saveMany(
+          [{ name: "a" }, { entityId: "stale", name: "b", version: 1 }],
+          { atomic: true }
+        )
+      ).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_CONFLICT });
+      expect(mockRedisClient.exec).not.toHaveBeenCalled();
+    });
+
+    it("should report missing entities when fetching many", async () => {
+      mockRedisClient.hGetAll = jest
+        .fn()
+        .mockImplementation(async (key: string) =>
+          key === "test:b" ? {} : { name: key.split(":")[1] }
+        );
+
+      const result = await transactionManager.fetchMany(["a", "b", "c"]);
+
+      expect(mockRedisClient.hGetAll).toHaveBeenCalledTimes(3);
+      expect(result.results).toEqual([
+        { entityId: "a", success: true, entity: { name: "a", entityId: "a" } },
+        expect.objectContaining({
+          entityId: "b",
+          success: false,
+          error: expect.objectContaining({ code: ErrorCode.ENTITY_NOT_FOUND }),
+        }),
+        { entityId: "c", success: true, entity: { name: "c", entityId: "c" } },
+      ]);
+    });
+
+    it("should pipeline removals in batches", async () => {
+      (mockRedisClient.execAsPipeline as jest.Mock)
+        .mockResolvedValueOnce([1, 0])
+        .mockResolvedValueOnce([1]);
+
+      const result = await transactionManager.removeMany(["a", "b", "c"], {
+        batchSize: 2,
+      });
+
+      expect(mockRedisClient.execAsPipeline).toHaveBeenCalledTimes(2);
+      expect(result.results.map((item) => item.success)).toEqual([
+        true,
+        false,
+        true,
+      ]);
+    });
+  });
+
+  describe("version history", () => {
+    let mockRedisClient: Record<string, jest.Mock | boolean>;
+
+    const createManager = (history = { enabled: true }) =>
+      new TransactionManager<EntityData>(
+        new Schema(
+          "test",
+          { name: { type: "string" } },
+          { dataStructure: "HASH" }
+        ),
+        mockClient,
+        "test",
+        mockRedisClient as unknown as RedisClientType,
+        { history }
+      );
+
+    beforeEach(() => {
+      mockRedisClient = {
+        isOpen: true,
+        isReady: true,
+        ping: jest.fn().mockResolvedValue("PONG"),
+        multi: jest.fn().mockReturnThis(),
+        unlink: jest.fn().mockReturnThis(),
+        hSet: jest.fn().mockReturnThis(),
+        hGet: jest.fn().mockResolvedValue(null),
+        hVals: jest.fn().mockResolvedValue([]),
+        exec: jest.fn().mockResolvedValue([1, 1, 2]),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    it("should store each saved version in the same MULTI", async () => {
+      transactionManager = createManager();
+
+      const saved = await transactionManager.save({ name: "alice" });
+
+      expect(mockRepository.save).not.toHaveBeenCalled();
+      expect(mockRedisClient.hSet).toHaveBeenCalledWith(
+        `test:history:${saved.entityId}`,
+        "1",
+        expect.stringContaining('"name":"alice"')
+      );
+      expect(mockRedisClient.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw ENTITY_NOT_FOUND for a version that is not retained", async () => {
+      transactionManager = createManager();
+
+      await expect(
+        transactionManager.fetchVersion("acc1", 7)
+      ).rejects.toMatchObject({
+        code: ErrorCode.ENTITY_NOT_FOUND,
+        details: { entityId: "acc1", version: 7 },
+      });
+    });
+
+    it("should restore a removed entity from its history", async () => {
+      mockRedisClient.hGetAll = jest.fn().mockResolvedValue({});
+      mockRedisClient.hGet = jest
+        .fn()
+        .mockImplementation(async (key: string) =>
+          key === "test:history:acc1"
+            ? JSON.stringify({ entityId: "acc1", name: "alice", version: 3 })
+            : null
+        );
+      mockRedisClient.watch = jest.fn().mockResolvedValue("OK");
+      mockRedisClient.executeIsolated = jest
+        .fn()
+        .mockImplementation((fn) => fn(mockRedisClient));
+      transactionManager = createManager();
+
+      const restored = await transactionManager.revertTo("acc1", 3);
+
+      expect(restored).toMatchObject({
+        entityId: "acc1",
+        name: "alice",
+        version: 1,
+      });
+      expect(mockRedisClient.watch).toHaveBeenCalledWith(["test:acc1"]);
+    });
+
+    it("should reject history lookups when history is disabled", async () => {
+      transactionManager = createManager({ enabled: false });
+
+      await expect(
+        transactionManager.listVersions("acc1")
+      ).rejects.toMatchObject({
+        code: ErrorCode.INVALID_CONFIG,
+      });
     });
   });
 
   describe("transaction operations", () => {
     describe("beginTransaction", () => {
-      it("should prevent multiple concurrent transactions", async () => {
-        // Create mock functions
-        const mockMulti = jest.fn();
+      let mockRedisClient: Record<string, jest.Mock | boolean>;
 
-        // Create mock Redis client
-        const mockRedisClient = {
+      beforeEach(() => {
+        mockRedisClient = {
           isOpen: true,
+          isReady: true,
           ping: jest.fn().mockResolvedValue("PONG"),
-          multi: mockMulti.mockReturnThis(),
-          exec: jest.fn().mockResolvedValue([]),
-          discard: jest.fn().mockResolvedValue(undefined),
-          keys: jest.fn().mockResolvedValue([]),
-          del: jest.fn().mockResolvedValue(1),
+          multi: jest.fn().mockReturnThis(),
+          unlink: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue([1]),
           quit: jest.fn().mockResolvedValue(undefined),
         };
 
-        // Create TransactionManager instance
         transactionManager = new TransactionManager<EntityData>(
           testSchema,
           mockClient,
           "test",
           mockRedisClient as unknown as RedisClientType
         );
+      });
+
+      it("should allow concurrent transactions on one manager", async () => {
+        const first = await transactionManager.beginTransaction();
+        const second = await transactionManager.beginTransaction();
 
-        // First transaction succeeds
+        first.remove("a1");
+        second.remove("b2");
+
+        const [firstResult, secondResult] = await Promise.all([
+          transactionManager.commitTransaction(first),
+          transactionManager.rollbackTransaction(second),
+        ]);
+
+        expect(firstResult.results).toEqual([
+          expect.objectContaining({ entityId: "a1", success: true }),
+        ]);
+        expect(mockRedisClient.unlink).toHaveBeenCalledTimes(1);
+        expect(mockRedisClient.unlink).toHaveBeenCalledWith("test:a1");
+        expect(secondResult).toBeUndefined();
+      });
+
+      it("should require an explicit context when several are active", async () => {
+        await transactionManager.beginTransaction();
         await transactionManager.beginTransaction();
 
-        // Second transaction should fail
         await expect(
-          transactionManager.beginTransaction()
+          transactionManager.commitTransaction()
+        ).rejects.toMatchObject({
+          code: ErrorCode.TRANSACTION_COMMIT_ERROR,
+          details: {
+            error: {
+              message:
+                "Multiple transactions are active; pass the transaction context explicitly",
+            },
+          },
+        });
+      });
+
+      it("should scope transactions to the async call chain", async () => {
+        const seen = await Promise.all(
+          ["a1", "b2"].map((entityId) =>
+            transactionManager.runInTransaction(async (tx) => {
+              await new Promise((resolve) => setImmediate(resolve));
+              tx.remove(entityId);
+              return transactionManager.getCurrentTransaction() === tx;
+            })
+          )
+        );
+
+        expect(seen.map((run) => run.value)).toEqual([true, true]);
+        expect(transactionManager.getCurrentTransaction()).toBeUndefined();
+      });
+
+      it("should prevent nested transactions in one call chain", async () => {
+        await expect(
+          transactionManager.runInTransaction(() =>
+            transactionManager.beginTransaction()
+          )
         ).rejects.toMatchObject({
-          message: "Transaction failed",
           code: ErrorCode.TRANSACTION_ERROR,
           details: {
             error: {
@@ -189,12 +1136,11 @@ describe("TransactionManager", () => {
       it("should commit transaction successfully", async () => {
         const mockRedisClient = {
           isOpen: true,
+          isReady: true,
           ping: jest.fn().mockResolvedValue("PONG"),
           multi: jest.fn().mockReturnThis(),
           exec: jest.fn().mockResolvedValue([]),
           discard: jest.fn().mockResolvedValue(undefined),
-          keys: jest.fn().mockResolvedValue([]),
-          del: jest.fn().mockResolvedValue(1),
           quit: jest.fn().mockResolvedValue(undefined),
         };
 
@@ -210,18 +1156,82 @@ describe("TransactionManager", () => {
 
         expect(mockRedisClient.exec).toHaveBeenCalled();
       });
+
+      it("should send buffered operations in a single MULTI/EXEC", async () => {
+        const mockRedisClient = {
+          isOpen: true,
+          isReady: true,
+          ping: jest.fn().mockResolvedValue("PONG"),
+          multi: jest.fn().mockReturnThis(),
+          unlink: jest.fn().mockReturnThis(),
+          hSet: jest.fn().mockReturnThis(),
+          hIncrBy: jest.fn().mockReturnThis(),
+          exec: jest.fn().mockResolvedValue([1, 3, 1, 2, 1]),
+          quit: jest.fn().mockResolvedValue(undefined),
+        };
+
+        const hashSchema = new Schema(
+          "test",
+          {
+            name: { type: "string" },
+            value: { type: "number" },
+            version: { type: "number" },
+          },
+          { dataStructure: "HASH" }
+        );
+
+        transactionManager = new TransactionManager<EntityData>(
+          hashSchema,
+          mockClient,
+          "test",
+          mockRedisClient as unknown as RedisClientType
+        );
+
+        const transaction = await transactionManager.beginTransaction();
+        const saved = await transaction.save({
+          entityId: "a1",
+          name: "alice",
+          value: 10,
+        });
+        transaction.patch("b2", { value: 20 });
+        transaction.remove("c3");
+
+        // Nothing is sent before commit
+        expect(mockRedisClient.exec).not.toHaveBeenCalled();
+        expect(saved).toMatchObject({ entityId: "a1", version: 1 });
+
+        const result = await transactionManager.commitTransaction();
+
+        expect(mockRedisClient.multi).toHaveBeenCalledTimes(1);
+        expect(mockRedisClient.hSet).toHaveBeenCalledWith(
+          "test:a1",
+          expect.objectContaining({ name: "alice", value: "10", version: "1" })
+        );
+        expect(mockRedisClient.hIncrBy).toHaveBeenCalledWith(
+          "test:b2",
+          "version",
+          1
+        );
+        expect(mockRedisClient.unlink).toHaveBeenCalledWith("test:c3");
+        expect(result.success).toBe(true);
+        expect(result.results.map((r) => [r.type, r.entityId])).toEqual([
+          ["save", "a1"],
+          ["patch", "b2"],
+          ["remove", "c3"],
+        ]);
+        expect(() => transaction.remove("d4")).toThrow();
+      });
     });
 
     describe("rollbackTransaction", () => {
       it("should rollback transaction successfully", async () => {
         const mockRedisClient = {
           isOpen: true,
+          isReady: true,
           ping: jest.fn().mockResolvedValue("PONG"),
           multi: jest.fn().mockReturnThis(),
           exec: jest.fn().mockResolvedValue([]),
           discard: jest.fn().mockResolvedValue(undefined),
-          keys: jest.fn().mockResolvedValue([]),
-          del: jest.fn().mockResolvedValue(1),
           quit: jest.fn().mockResolvedValue(undefined),
         };
 
@@ -232,10 +1242,12 @@ describe("TransactionManager", () => {
           mockRedisClient as unknown as RedisClientType
         );
 
-        await transactionManager.beginTransaction();
+        const transaction = await transactionManager.beginTransaction();
+        transaction.remove("test123");
         await transactionManager.rollbackTransaction();
 
-        expect(mockRedisClient.discard).toHaveBeenCalled();
+        expect(mockRedisClient.exec).not.toHaveBeenCalled();
+        expect(transaction.isActive()).toBe(false);
       });
     });
   });